@@ -2,8 +2,10 @@
  * Zenith Core Runtime
  * 
  * This is the foundational layer of the Zenith framework, providing:
- * - Reactive primitives (signals, state, effects, memos)
- * - Lifecycle hooks (onMount, onUnmount)
+ * - Reactive primitives (signals, state, effects, memos, resources, watchers)
+ * - Ownership scopes and error boundaries (createRoot, onCleanup, catchError)
+ * - Lifecycle hooks (onMount, onUnmount, onBeforeUnmount, onUpdate, onErrorCaptured)
+ * - Context (createContext, provide, inject)
  * 
  * Design principles:
  * - Auto-tracked reactivity (no dependency arrays)
@@ -61,18 +63,72 @@ export {
   zenMemo,
   zenRef,
   zenBatch,
-  zenUntrack
+  zenUntrack,
+  zenResource,
+  zenWatch,
+  zenHistory
 } from './reactivity'
 
 // Types
 export type {
   Signal,
+  ReadonlySignal,
+  WritableSignal,
+  SignalSetter,
+  SignalOptions,
+  EqualityFn,
   Memo,
+  MemoOptions,
   Ref,
   EffectFn,
+  EffectOptions,
   DisposeFn,
+  Resource,
+  ResourceSource,
+  ResourceFetcher,
+  ResourceFetcherInfo,
+  ResourceOptions,
+  WatchSource,
+  WatchSourceValues,
+  WatchCallback,
+  WatchCleanup,
+  WatchOptions,
+  History,
+  HistoryOptions,
+  Patch,
+  PatchListener,
+  StorageAdapter,
+  Serializer,
+  PersistOptions,
+  PersistedSignal,
+  ListSource,
+  MapArrayOptions,
+  IndexArrayOptions,
+  SelectorEqualsFn,
   Subscriber,
-  TrackingContext
+  TrackingContext,
+  Owner,
+  ErrorHandler,
+  DeepReadonly,
+  SchedulerMode,
+  DeferredOptions,
+  Observer,
+  Subscription,
+  Subscribable,
+  Observable,
+  ExternalSource,
+  TC39SignalAPI,
+  TC39Readable,
+  TC39State,
+  TC39Watcher,
+  NodeKind,
+  DebugNode,
+  DependencyEdge,
+  DependencyGraph,
+  NodeInspection,
+  GraphEvent,
+  GraphListener,
+  ReactiveRuntime
 } from './reactivity'
 
 // Clean name exports (public DX)
@@ -83,7 +139,95 @@ export {
   memo,
   ref,
   batch,
-  untrack
+  untrack,
+  resource,
+  watch
+} from './reactivity'
+
+// Signal pairs ([get, set])
+export {
+  createSignal
+} from './reactivity'
+
+// State utilities
+export {
+  toRaw,
+  markRaw,
+  readonly,
+  shallowState,
+  isReactive,
+  isReadonly
+} from './reactivity'
+
+// List mapping
+export {
+  mapArray,
+  indexArray
+} from './reactivity'
+
+// Keyed selection
+export {
+  createSelector
+} from './reactivity'
+
+// State change streams
+export {
+  observePatches,
+  applyPatches
+} from './reactivity'
+
+// Persistence
+export {
+  persistedSignal,
+  persistedState,
+  createMemoryStorage,
+  createWebStorage
+} from './reactivity'
+
+// Scheduling
+export {
+  setSchedulerMode,
+  getSchedulerMode,
+  flushSync,
+  nextTick
+} from './reactivity'
+
+// Transitions
+export {
+  startTransition,
+  isPending,
+  deferred
+} from './reactivity'
+
+// Interop (Observables, async iterables, TC39 signals)
+export {
+  from,
+  fromTC39Signal,
+  toTC39Signal
+} from './reactivity'
+
+// Devtools introspection (no-op in production)
+export {
+  getDependencyGraph,
+  inspect,
+  onGraphChange
+} from './reactivity'
+
+// Isolated runtimes
+export {
+  createReactiveRuntime,
+  getDefaultRuntime,
+  runInRuntime
+} from './reactivity'
+
+// Ownership scopes
+export {
+  createRoot,
+  getOwner,
+  runWithOwner,
+  onCleanup,
+  onError,
+  catchError
 } from './reactivity'
 
 // Internal tracking utilities (advanced use)
@@ -107,26 +251,51 @@ export {
 // Explicit zen* exports (internal naming)
 export {
   zenOnMount,
-  zenOnUnmount
+  zenOnUnmount,
+  zenOnBeforeUnmount,
+  zenOnUpdate,
+  zenOnErrorCaptured,
+  zenProvide,
+  zenInject
 } from './lifecycle'
 
 // Clean name exports (public DX)
 export {
   onMount,
-  onUnmount
+  onUnmount,
+  onBeforeUnmount,
+  onUpdate,
+  onErrorCaptured,
+  provide,
+  inject
 } from './lifecycle'
 
+// Context
+export { createContext } from './lifecycle'
+
 // Types
 export type {
   MountCallback,
-  UnmountCallback
+  MountContext,
+  UnmountCallback,
+  BeforeUnmountCallback,
+  UpdateCallback,
+  ErrorCapturedHandler,
+  Context,
+  ComponentLifecycle
 } from './lifecycle'
 
 // Internal lifecycle utilities (for component system)
 export {
+  createComponentLifecycle,
+  runInComponent,
+  getCurrentLifecycle,
+  mountComponent,
+  unmountComponent,
   triggerMount,
   triggerUnmount,
   executeUnmountCallbacks,
+  executeBeforeUnmountCallbacks,
   getIsMounted,
   getUnmountCallbackCount,
   resetMountState,
@@ -1,7 +1,9 @@
 /**
  * Zenith Lifecycle Hooks
  * 
- * This module exports lifecycle hooks for component mount/unmount events.
+ * This module exports lifecycle hooks for component mount, update and
+ * unmount events, component-level error boundaries and context
+ * (provide / inject).
  * These are effect wrappers that integrate with the component lifecycle system.
  * 
  * Exports both explicit `zen*` names (internal) and clean aliases (public DX).
@@ -14,7 +16,8 @@ import {
   triggerUnmount,
   getIsMounted,
   resetMountState,
-  type MountCallback
+  type MountCallback,
+  type MountContext
 } from './zen-mount'
 
 import {
@@ -25,25 +28,83 @@ import {
   type UnmountCallback
 } from './zen-unmount'
 
+import {
+  zenOnBeforeUnmount as _zenOnBeforeUnmount,
+  executeBeforeUnmountCallbacks,
+  type BeforeUnmountCallback
+} from './zen-before-unmount'
+
+import {
+  zenOnUpdate as _zenOnUpdate,
+  type UpdateCallback
+} from './zen-update'
+
+import {
+  zenOnErrorCaptured as _zenOnErrorCaptured,
+  type ErrorCapturedHandler
+} from './zen-error-captured'
+
+import {
+  createContext,
+  zenProvide as _zenProvide,
+  zenInject as _zenInject,
+  type Context
+} from './zen-context'
+
+import {
+  createComponentLifecycle,
+  runInComponent,
+  getCurrentLifecycle,
+  mountComponent,
+  unmountComponent,
+  type ComponentLifecycle
+} from './zen-component'
+
 // Re-export with explicit names
 export const zenOnMount = _zenOnMount
 export const zenOnUnmount = _zenOnUnmount
+export const zenOnBeforeUnmount = _zenOnBeforeUnmount
+export const zenOnUpdate = _zenOnUpdate
+export const zenOnErrorCaptured = _zenOnErrorCaptured
+export const zenProvide = _zenProvide
+export const zenInject = _zenInject
 
 // Re-export utilities
 export {
+  createContext,
+  createComponentLifecycle,
+  runInComponent,
+  getCurrentLifecycle,
+  mountComponent,
+  unmountComponent,
   triggerMount,
   triggerUnmount,
   getIsMounted,
   resetMountState,
   executeUnmountCallbacks,
+  executeBeforeUnmountCallbacks,
   getUnmountCallbackCount,
   resetUnmountState
 }
 
 // Re-export types
-export type { MountCallback, UnmountCallback }
+export type {
+  MountCallback,
+  MountContext,
+  UnmountCallback,
+  BeforeUnmountCallback,
+  UpdateCallback,
+  ErrorCapturedHandler,
+  Context,
+  ComponentLifecycle
+}
 
 // Public DX aliases - clean names
 export const onMount = _zenOnMount
 export const onUnmount = _zenOnUnmount
+export const onBeforeUnmount = _zenOnBeforeUnmount
+export const onUpdate = _zenOnUpdate
+export const onErrorCaptured = _zenOnErrorCaptured
+export const provide = _zenProvide
+export const inject = _zenInject
 
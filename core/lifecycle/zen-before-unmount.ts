@@ -0,0 +1,111 @@
+/**
+ * Zenith OnBeforeUnmount - Before-Unmount Lifecycle Hook
+ * 
+ * Registers a callback to run when a component is about to unmount, while
+ * its DOM and the DOM of its child components is still in place and its
+ * effects are still running.
+ * 
+ * Features:
+ * - Runs before any unmount callback of the component tree
+ * - Parents run before their children
+ * - Callbacks run in registration order
+ * 
+ * @example
+ * ```ts
+ * zenOnBeforeUnmount(() => {
+ *   // Still in the document - measure it for the exit animation
+ *   savedScroll = list.scrollTop
+ * })
+ * ```
+ * 
+ * Note: Inside a component, the callback runs when that component starts
+ * unmounting. Outside of components, it runs when the page is about to be
+ * torn down (`executeBeforeUnmountCallbacks`). The callback is dropped
+ * when the scope it was registered in is disposed first.
+ */
+
+import { onCleanup, getOwner, removeCleanup, type Owner } from '../reactivity/owner'
+import { getRuntime, type ReactiveRuntime } from '../reactivity/runtime'
+import { getCurrentLifecycle } from './zen-component'
+import { reportLifecycleError } from './zen-error-captured'
+
+/**
+ * Before-unmount callback type
+ */
+export type BeforeUnmountCallback = () => void
+
+/**
+ * Before-unmount callbacks registered outside of components, one queue
+ * per reactive runtime
+ */
+const beforeUnmountRegistries = new WeakMap<ReactiveRuntime, Set<() => void>>()
+
+/**
+ * Get the before-unmount callbacks of the active runtime
+ */
+function getBeforeUnmountCallbacks(): Set<() => void> {
+  const runtime = getRuntime()
+  let callbacks = beforeUnmountRegistries.get(runtime)
+  
+  if (!callbacks) {
+    callbacks = new Set()
+    beforeUnmountRegistries.set(runtime, callbacks)
+  }
+  
+  return callbacks
+}
+
+/**
+ * Register a callback to run before component unmount
+ * 
+ * @param callback - Function to run before unmount
+ * @returns Dispose function to cancel the callback
+ */
+export function zenOnBeforeUnmount(callback: BeforeUnmountCallback): () => void {
+  // Callbacks of a component run when it unmounts, others with the page
+  const beforeUnmountCallbacks = getCurrentLifecycle()?.beforeUnmountCallbacks ?? getBeforeUnmountCallbacks()
+  const owner = getOwner()
+  const run = () => runBeforeUnmountCallback(callback, owner)
+  beforeUnmountCallbacks.add(run)
+  
+  // Drop on disposal of the enclosing scope - the DOM may already be gone
+  const onDispose = onCleanup(() => {
+    beforeUnmountCallbacks.delete(run)
+  })
+  
+  // Return dispose function
+  return () => {
+    beforeUnmountCallbacks.delete(run)
+    if (owner) removeCleanup(owner, onDispose)
+  }
+}
+
+/**
+ * Run a single before-unmount callback, reporting errors
+ */
+function runBeforeUnmountCallback(callback: BeforeUnmountCallback, owner: Owner | null): void {
+  try {
+    callback()
+  } catch (error) {
+    reportLifecycleError(error, owner, 'onBeforeUnmount callback')
+  }
+}
+
+/**
+ * Execute all before-unmount callbacks registered outside of components
+ * Called by the component lifecycle system before the unmount callbacks
+ * 
+ * @internal
+ */
+export function executeBeforeUnmountCallbacks(): void {
+  const beforeUnmountCallbacks = getBeforeUnmountCallbacks()
+  const callbacks = [...beforeUnmountCallbacks]
+  
+  // Clear first - callbacks run once
+  beforeUnmountCallbacks.clear()
+  
+  // Execute in registration order
+  for (const run of callbacks) {
+    run()
+  }
+}
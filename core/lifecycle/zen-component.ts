@@ -0,0 +1,238 @@
+/**
+ * Zenith Component Lifecycle - Per-Component Mount/Unmount Scopes
+ * 
+ * Every component instance gets its own lifecycle, created by the
+ * compiled component code. The lifecycle owns the mount and unmount
+ * callbacks registered while the component is set up, nests inside the
+ * lifecycle of its parent component, and has its own owner scope, so
+ * effects and memos created in the component are disposed with it.
+ * 
+ * Order:
+ * - Mount: children mount before their parent (their DOM is in place
+ *   when the parent's onMount runs)
+ * - Before unmount: parents before their children, while all of their
+ *   DOM is still in place
+ * - Unmount: children unmount before their parent
+ * 
+ * Unmounting a component (e.g. the previous page on client-side
+ * navigation) only tears down that component and its descendants.
+ * 
+ * @example
+ * ```ts
+ * // Generated by the compiler for every component instance
+ * const lifecycle = createComponentLifecycle()
+ * 
+ * runInComponent(lifecycle, () => {
+ *   // Component script - hooks register with this component
+ *   onMount(() => console.log('mounted'))
+ *   onUnmount(() => console.log('unmounted'))
+ * })
+ * 
+ * container.append(fragment)
+ * mountComponent(lifecycle)
+ * 
+ * // Later, e.g. when navigating away
+ * unmountComponent(lifecycle)
+ * ```
+ */
+
+import {
+  getOwner,
+  createOwner,
+  runWithOwner,
+  disposeOwner,
+  onCleanup,
+  removeCleanup,
+  type Owner
+} from '../reactivity/owner'
+
+/**
+ * Lifecycle of a component instance
+ */
+export interface ComponentLifecycle {
+  /** Lifecycle of the parent component (null for page roots) */
+  readonly parent: ComponentLifecycle | null
+  /** Lifecycles of the child components */
+  readonly children: Set<ComponentLifecycle>
+  /** Scope owning everything created by the component */
+  readonly owner: Owner
+  /** Whether the component is mounted */
+  mounted: boolean
+  /** Whether the component has been unmounted (final) */
+  unmounted: boolean
+  /** Run when the component mounts, in registration order */
+  mountCallbacks: (() => void)[]
+  /** Run before the component and its children unmount, in registration order */
+  beforeUnmountCallbacks: Set<() => void>
+  /** Run when the component unmounts, in registration order */
+  unmountCallbacks: Set<() => void>
+}
+
+/**
+ * Component lifecycles by the owner scope they created
+ */
+const lifecycles = new WeakMap<Owner, ComponentLifecycle>()
+
+/**
+ * Cleanups that unmount a component with the scope it was created in
+ */
+const releases = new WeakMap<ComponentLifecycle, { owner: Owner, release: () => void }>()
+
+/**
+ * Create the lifecycle of a component instance
+ * 
+ * The component nests inside the current component (if any) and is
+ * unmounted when the scope it is created in is disposed, e.g. when the
+ * effect rendering it re-runs.
+ * 
+ * @internal Called by compiled component code
+ * @param parent - The parent component (defaults to the current one)
+ */
+export function createComponentLifecycle(
+  parent: ComponentLifecycle | null = getCurrentLifecycle()
+): ComponentLifecycle {
+  const scope = getOwner()
+  
+  const lifecycle: ComponentLifecycle = {
+    parent,
+    children: new Set(),
+    owner: createOwner(scope ?? parent?.owner ?? null),
+    mounted: false,
+    unmounted: false,
+    mountCallbacks: [],
+    beforeUnmountCallbacks: new Set(),
+    unmountCallbacks: new Set()
+  }
+  
+  lifecycles.set(lifecycle.owner, lifecycle)
+  parent?.children.add(lifecycle)
+  
+  if (scope) {
+    const release = onCleanup(() => unmountComponent(lifecycle))
+    releases.set(lifecycle, { owner: scope, release })
+  }
+  
+  return lifecycle
+}
+
+/**
+ * Run a function as part of a component (e.g. its setup script)
+ * 
+ * Lifecycle hooks, effects and child components created inside belong to
+ * the component.
+ * 
+ * @internal Called by compiled component code
+ * @param lifecycle - The component
+ * @param fn - The function to run
+ * @returns The return value of the function
+ */
+export function runInComponent<T>(lifecycle: ComponentLifecycle, fn: () => T): T {
+  return runWithOwner(lifecycle.owner, fn)
+}
+
+/**
+ * Get the lifecycle of the component currently being set up
+ * 
+ * Found through the owner scope, so hooks registered inside effects of a
+ * component belong to that component too.
+ * 
+ * @returns The nearest component, or null outside of components
+ */
+export function getCurrentLifecycle(): ComponentLifecycle | null {
+  for (let owner = getOwner(); owner; owner = owner.owner) {
+    const lifecycle = lifecycles.get(owner)
+    if (lifecycle) return lifecycle
+  }
+  
+  return null
+}
+
+/**
+ * Mount a component and its children (children first)
+ * 
+ * Called once the component's DOM has been inserted.
+ * 
+ * @internal Called by compiled component code
+ * @param lifecycle - The component to mount
+ */
+export function mountComponent(lifecycle: ComponentLifecycle): void {
+  if (lifecycle.mounted || lifecycle.unmounted) return
+  
+  for (const child of [...lifecycle.children]) {
+    mountComponent(child)
+  }
+  
+  lifecycle.mounted = true
+  
+  const callbacks = lifecycle.mountCallbacks
+  lifecycle.mountCallbacks = []
+  
+  for (const callback of callbacks) {
+    callback()
+  }
+}
+
+/**
+ * Unmount a component and its children
+ * 
+ * First runs the before-unmount callbacks (parents first), then unmounts
+ * children before parents: runs the unmount callbacks and disposes the
+ * component's scope, which runs mount cleanups and stops its effects.
+ * Unmounting is final.
+ * 
+ * @internal Called by compiled component code
+ * @param lifecycle - The component to unmount
+ */
+export function unmountComponent(lifecycle: ComponentLifecycle): void {
+  if (lifecycle.unmounted) return
+  
+  beforeUnmount(lifecycle)
+  teardown(lifecycle)
+}
+
+/**
+ * Run the before-unmount callbacks of a component, then of its children
+ */
+function beforeUnmount(lifecycle: ComponentLifecycle): void {
+  const callbacks = [...lifecycle.beforeUnmountCallbacks]
+  lifecycle.beforeUnmountCallbacks.clear()
+  
+  for (const callback of callbacks) {
+    callback()
+  }
+  
+  for (const child of [...lifecycle.children]) {
+    beforeUnmount(child)
+  }
+}
+
+/**
+ * Unmount the children of a component, then the component itself
+ */
+function teardown(lifecycle: ComponentLifecycle): void {
+  if (lifecycle.unmounted) return
+  lifecycle.unmounted = true
+  
+  for (const child of [...lifecycle.children]) {
+    teardown(child)
+  }
+  
+  const callbacks = [...lifecycle.unmountCallbacks]
+  lifecycle.unmountCallbacks.clear()
+  lifecycle.mountCallbacks = []
+  
+  for (const callback of callbacks) {
+    callback()
+  }
+  
+  disposeOwner(lifecycle.owner)
+  lifecycle.mounted = false
+  lifecycle.parent?.children.delete(lifecycle)
+  
+  // Unmounted on its own - stop waiting for the creating scope
+  const registration = releases.get(lifecycle)
+  if (registration) {
+    removeCleanup(registration.owner, registration.release)
+    releases.delete(lifecycle)
+  }
+}
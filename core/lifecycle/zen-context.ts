@@ -0,0 +1,137 @@
+/**
+ * Zenith Context - Values Shared Across the Component Tree
+ * 
+ * Passes a value (theme, store, i18n instance) from a component to all of
+ * its descendants without threading it through every prop. A component
+ * provides a value for a context; components below it inject the value of
+ * the nearest provider.
+ * 
+ * Features:
+ * - Lookups walk up the owner scopes to the nearest provider
+ * - Falls back to the context's default value
+ * - Reactive values: provide a signal, store or memo and consumers track it
+ * - Values provided outside of components apply to the whole page
+ * 
+ * @example
+ * ```ts
+ * const ThemeContext = createContext<ReadonlySignal<'light' | 'dark'>>(
+ *   zenSignal<'light' | 'dark'>('light').asReadonly()
+ * )
+ * 
+ * // Parent component
+ * const theme = zenSignal<'light' | 'dark'>('dark')
+ * zenProvide(ThemeContext, theme.asReadonly())
+ * 
+ * // Any descendant component
+ * const current = zenInject(ThemeContext)
+ * zenEffect(() => {
+ *   document.body.dataset.theme = current()
+ * })
+ * ```
+ * 
+ * Note: Inside a component, the value is provided for the whole component
+ * (including effects and child components created in it). Providing
+ * inside an owner scope outside of components scopes the value to it.
+ * Provided values are looked up when injecting, so inject during setup.
+ */
+
+import { getOwner, onCleanup, type Owner } from '../reactivity/owner'
+import { getRuntime, type ReactiveRuntime } from '../reactivity/runtime'
+import { getCurrentLifecycle } from './zen-component'
+
+/**
+ * A context - identifies a provided value
+ */
+export interface Context<T> {
+  /** Value injected when no provider is found */
+  readonly defaultValue: T
+}
+
+/**
+ * Values provided by a scope, by context
+ */
+type ProvidedValues = Map<Context<unknown>, unknown>
+
+/**
+ * Values provided by owner scopes
+ */
+const scopeValues = new WeakMap<Owner, ProvidedValues>()
+
+/**
+ * Values provided outside of any owner, one set per reactive runtime
+ */
+const pageValues = new WeakMap<ReactiveRuntime, ProvidedValues>()
+
+/**
+ * Create a context
+ * 
+ * @param defaultValue - Value injected when no provider is found
+ * @returns The context, used as key for providing and injecting
+ */
+export function createContext<T>(defaultValue: T): Context<T> {
+  return { defaultValue }
+}
+
+/**
+ * Provide a value for a context to the current component and its
+ * descendants
+ * 
+ * @param context - The context to provide
+ * @param value - The value (pass a signal or store for reactive values)
+ */
+export function zenProvide<T>(context: Context<T>, value: T): void {
+  const owner = getCurrentLifecycle()?.owner ?? getOwner()
+  
+  if (!owner) {
+    getPageValues().set(context, value)
+    return
+  }
+  
+  let values = scopeValues.get(owner)
+  
+  if (!values) {
+    values = new Map()
+    scopeValues.set(owner, values)
+  }
+  
+  const provided = values
+  provided.set(context, value)
+  
+  // Withdrawn with the enclosing scope (e.g. when an effect re-runs)
+  onCleanup(() => {
+    if (provided.get(context) === value) {
+      provided.delete(context)
+    }
+  })
+}
+
+/**
+ * Inject the value of the nearest provider of a context
+ * 
+ * @param context - The context to inject
+ * @returns The provided value, or the context's default value
+ */
+export function zenInject<T>(context: Context<T>): T {
+  for (let owner = getOwner(); owner; owner = owner.owner) {
+    const values = scopeValues.get(owner)
+    if (values?.has(context)) return values.get(context) as T
+  }
+  
+  const values = getPageValues()
+  return values.has(context) ? values.get(context) as T : context.defaultValue
+}
+
+/**
+ * Get the values provided outside of any owner in the active runtime
+ */
+function getPageValues(): ProvidedValues {
+  const runtime = getRuntime()
+  let values = pageValues.get(runtime)
+  
+  if (!values) {
+    values = new Map()
+    pageValues.set(runtime, values)
+  }
+  
+  return values
+}
@@ -0,0 +1,129 @@
+/**
+ * Zenith OnErrorCaptured - Component Error Boundary Hook
+ * 
+ * Registers a handler for errors thrown inside the component: by its
+ * effects, by its lifecycle callbacks (including rejected async onMount
+ * callbacks) and by its child components.
+ * 
+ * Features:
+ * - Handlers run in registration order
+ * - Return `false` to mark the error as handled; otherwise it propagates
+ *   to the next boundary up (parent components, `catchError`)
+ * - Unhandled lifecycle errors are logged instead of thrown
+ * 
+ * @example
+ * ```ts
+ * const failed = zenSignal<unknown>(null)
+ * 
+ * zenOnErrorCaptured(error => {
+ *   failed(error)
+ *   return false // Handled - show a fallback instead of propagating
+ * })
+ * ```
+ * 
+ * Note: Outside of components, the handler guards the current owner
+ * scope. Called outside of any owner, it has no effect.
+ */
+
+import { getOwner, onCleanup, handleError, type Owner } from '../reactivity/owner'
+import { getCurrentLifecycle } from './zen-component'
+
+/**
+ * Error handler type - return `false` to stop propagation
+ */
+export type ErrorCapturedHandler = (error: unknown) => boolean | void
+
+/**
+ * Error boundary of a scope - one dispatcher for all of its handlers
+ */
+interface CapturedBoundary {
+  handlers: ErrorCapturedHandler[]
+  dispatch: (error: unknown) => void
+}
+
+/**
+ * Boundaries by the scope they guard
+ */
+const boundaries = new WeakMap<Owner, CapturedBoundary>()
+
+/**
+ * Get the boundary of a scope, registering its dispatcher if needed
+ */
+function getBoundary(owner: Owner): CapturedBoundary {
+  const existing = boundaries.get(owner)
+  
+  // Error handlers of a scope are dropped when it is cleaned (e.g. an effect re-running)
+  if (existing && owner.handlers?.includes(existing.dispatch)) {
+    return existing
+  }
+  
+  const handlers: ErrorCapturedHandler[] = []
+  
+  // Propagate unless one of the handlers marks the error as handled
+  const dispatch = (error: unknown) => {
+    let handled = false
+    
+    for (const handler of [...handlers]) {
+      if (handler(error) === false) handled = true
+    }
+    
+    if (!handled) throw error
+  }
+  
+  if (owner.handlers) {
+    owner.handlers.push(dispatch)
+  } else {
+    owner.handlers = [dispatch]
+  }
+  
+  const boundary = { handlers, dispatch }
+  boundaries.set(owner, boundary)
+  
+  return boundary
+}
+
+/**
+ * Register an error handler for the current component
+ * 
+ * @param handler - Receives the error; return `false` to stop propagation
+ * @returns Dispose function to remove the handler
+ */
+export function zenOnErrorCaptured(handler: ErrorCapturedHandler): () => void {
+  const owner = getCurrentLifecycle()?.owner ?? getOwner()
+  if (!owner) return () => {}
+  
+  const { handlers } = getBoundary(owner)
+  handlers.push(handler)
+  
+  const dispose = () => {
+    const index = handlers.indexOf(handler)
+    if (index !== -1) {
+      handlers.splice(index, 1)
+    }
+  }
+  
+  // Removed together with the enclosing scope
+  onCleanup(dispose)
+  
+  // Return dispose function
+  return dispose
+}
+
+/**
+ * Report an error thrown by a lifecycle callback
+ * 
+ * Passes the error to the error boundaries around the scope the callback
+ * was registered in, and logs it if none of them handles it.
+ * 
+ * @internal Used by the lifecycle hooks
+ * @param error - The thrown error
+ * @param owner - Scope the callback was registered in
+ * @param source - Description for the log, e.g. `onMount callback`
+ */
+export function reportLifecycleError(error: unknown, owner: Owner | null, source: string): void {
+  try {
+    handleError(error, owner)
+  } catch (unhandled) {
+    console.error(`[Zenith] Error in ${source}:`, unhandled)
+  }
+}
@@ -8,6 +8,8 @@
  * - Runs after DOM is available
  * - Only runs once per mount
  * - Supports cleanup function return
+ * - Async callbacks get an AbortSignal that aborts on unmount
+ * - Errors go to the component's error boundaries (`zenOnErrorCaptured`)
  * - Works with component lifecycle system
  * 
  * @example
@@ -21,17 +23,42 @@
  *     console.log('Component will unmount')
  *   }
  * })
+ * 
+ * // Async - in-flight requests are cancelled on unmount
+ * zenOnMount(async ({ signal }) => {
+ *   const response = await fetch('/api/user', { signal })
+ *   user(await response.json())
+ * })
  * ```
  * 
- * Note: This hook registers callbacks that will be executed by the
- * component lifecycle system. If no mount scheduler is active,
- * callbacks are queued for later execution.
+ * Note: Inside a component, the callback belongs to that component: it
+ * runs when the component mounts (immediately if it already has) and its
+ * cleanup runs when the component unmounts. Outside of components, the
+ * callback is queued until the page mounts (`triggerMount`). When
+ * registered inside an owner scope, the hook is disposed (running its
+ * cleanup) with that scope.
  */
 
+import { onCleanup, getOwner, type Owner } from '../reactivity/owner'
+import { getRuntime, type ReactiveRuntime } from '../reactivity/runtime'
+import { getCurrentLifecycle, type ComponentLifecycle } from './zen-component'
+import { reportLifecycleError } from './zen-error-captured'
+
 /**
- * Mount callback type - can optionally return a cleanup function
+ * Context passed to mount callbacks
  */
-export type MountCallback = () => void | (() => void)
+export interface MountContext {
+  /** Aborted when the component unmounts or the hook is disposed */
+  signal: AbortSignal
+}
+
+/**
+ * Mount callback type - can optionally return a cleanup function, or a
+ * promise of one for async callbacks
+ */
+export type MountCallback = (
+  context: MountContext
+) => void | (() => void) | Promise<void | (() => void)>
 
 /**
  * Mount hook state
@@ -40,24 +67,54 @@ interface MountHookState {
   callback: MountCallback
   cleanup: (() => void) | null
   mounted: boolean
+  /** Scope the hook was registered in (for error boundaries) */
+  owner: Owner | null
+  /** Aborts the signal of the running callback */
+  controller: AbortController | null
 }
 
 /**
- * Queue of pending mount callbacks
- * These are registered but not yet executed because mount hasn't occurred
+ * Mount state of the page (hooks registered outside of components), one
+ * per reactive runtime
  */
-const pendingMountCallbacks: MountHookState[] = []
+interface MountRegistry {
+  /**
+   * Queue of pending mount callbacks
+   * These are registered but not yet executed because mount hasn't occurred
+   */
+  pendingMountCallbacks: MountHookState[]
+  /** Currently active mount hooks (for cleanup on unmount) */
+  activeMountHooks: Set<MountHookState>
+  /**
+   * Flag indicating whether we're in a mounted state
+   * This is controlled by the component lifecycle system
+   */
+  isMounted: boolean
+}
 
 /**
- * Currently active mount hooks (for cleanup on unmount)
+ * Mount registries, one per reactive runtime
  */
-const activeMountHooks: Set<MountHookState> = new Set()
+const mountRegistries = new WeakMap<ReactiveRuntime, MountRegistry>()
 
 /**
- * Flag indicating whether we're in a mounted state
- * This is controlled by the component lifecycle system
+ * Get the mount registry of the active runtime
  */
-let isMounted = false
+function getMountRegistry(): MountRegistry {
+  const runtime = getRuntime()
+  let registry = mountRegistries.get(runtime)
+  
+  if (!registry) {
+    registry = {
+      pendingMountCallbacks: [],
+      activeMountHooks: new Set(),
+      isMounted: false
+    }
+    mountRegistries.set(runtime, registry)
+  }
+  
+  return registry
+}
 
 /**
  * Register a callback to run after component mount
@@ -69,9 +126,59 @@ export function zenOnMount(callback: MountCallback): () => void {
   const state: MountHookState = {
     callback,
     cleanup: null,
-    mounted: false
+    mounted: false,
+    owner: getOwner(),
+    controller: null
   }
   
+  const lifecycle = getCurrentLifecycle()
+  const dispose = lifecycle
+    ? registerWithComponent(lifecycle, state)
+    : registerWithPage(state)
+  
+  // Tear down together with the enclosing scope
+  onCleanup(dispose)
+  
+  // Return dispose function
+  return dispose
+}
+
+/**
+ * Register a mount hook with the component it was created in
+ * 
+ * @returns Dispose function of the hook
+ */
+function registerWithComponent(lifecycle: ComponentLifecycle, state: MountHookState): () => void {
+  const run = () => executeMountCallback(state)
+  
+  if (lifecycle.mounted) {
+    // Already mounted - run immediately
+    run()
+  } else if (!lifecycle.unmounted) {
+    // Run when the component mounts
+    lifecycle.mountCallbacks.push(run)
+  }
+  
+  return () => {
+    // Remove from pending if not yet executed
+    const pendingIndex = lifecycle.mountCallbacks.indexOf(run)
+    if (pendingIndex !== -1) {
+      lifecycle.mountCallbacks.splice(pendingIndex, 1)
+    }
+    
+    // Run cleanup if already mounted
+    runMountCleanup(state)
+  }
+}
+
+/**
+ * Register a mount hook created outside of components with the page
+ * 
+ * @returns Dispose function of the hook
+ */
+function registerWithPage(state: MountHookState): () => void {
+  const { pendingMountCallbacks, activeMountHooks, isMounted } = getMountRegistry()
+  
   if (isMounted) {
     // Already mounted - run immediately
     executeMountCallback(state)
@@ -82,7 +189,6 @@ export function zenOnMount(callback: MountCallback): () => void {
   
   activeMountHooks.add(state)
   
-  // Return dispose function
   return () => {
     // Remove from pending if not yet executed
     const pendingIndex = pendingMountCallbacks.indexOf(state)
@@ -91,10 +197,7 @@ export function zenOnMount(callback: MountCallback): () => void {
     }
     
     // Run cleanup if already mounted
-    if (state.mounted && state.cleanup) {
-      state.cleanup()
-      state.cleanup = null
-    }
+    runMountCleanup(state)
     
     activeMountHooks.delete(state)
   }
@@ -108,25 +211,87 @@ function executeMountCallback(state: MountHookState): void {
   
   state.mounted = true
   
+  const controller = new AbortController()
+  state.controller = controller
+  
+  let result: ReturnType<MountCallback>
+  
   try {
-    const result = state.callback()
-    
-    if (typeof result === 'function') {
-      state.cleanup = result
-    }
+    result = state.callback({ signal: controller.signal })
+  } catch (error) {
+    reportLifecycleError(error, state.owner, 'onMount callback')
+    return
+  }
+  
+  if (typeof result === 'function') {
+    state.cleanup = result
+  } else if (result && typeof result.then === 'function') {
+    // Async callback - the cleanup is known once it resolves
+    result.then(
+      cleanup => {
+        if (typeof cleanup !== 'function') return
+        
+        if (!controller.signal.aborted) {
+          state.cleanup = cleanup
+          return
+        }
+        
+        // Unmounted while pending - clean up right away
+        try {
+          cleanup()
+        } catch (error) {
+          reportLifecycleError(error, state.owner, 'onMount cleanup')
+        }
+      },
+      error => {
+        // Rejections caused by the abort on unmount are expected
+        if (controller.signal.aborted && isAbortError(error, controller.signal)) return
+        
+        reportLifecycleError(error, state.owner, 'onMount callback')
+      }
+    )
+  }
+}
+
+/**
+ * Check whether an error was caused by aborting a signal
+ */
+function isAbortError(error: unknown, signal: AbortSignal): boolean {
+  return error === signal.reason || (error as { name?: unknown } | null)?.name === 'AbortError'
+}
+
+/**
+ * Abort a running mount callback and run its cleanup, reporting errors
+ */
+function runMountCleanup(state: MountHookState): void {
+  if (state.controller) {
+    const controller = state.controller
+    state.controller = null
+    controller.abort()
+  }
+  
+  if (!state.cleanup) return
+  
+  const cleanup = state.cleanup
+  state.cleanup = null
+  
+  try {
+    cleanup()
   } catch (error) {
-    console.error('[Zenith] Error in onMount callback:', error)
+    reportLifecycleError(error, state.owner, 'onMount cleanup')
   }
 }
 
 /**
  * Trigger mount phase - called by component lifecycle system
- * Executes all pending mount callbacks
+ * Executes all pending mount callbacks registered outside of components
  * 
  * @internal
  */
 export function triggerMount(): void {
-  isMounted = true
+  const registry = getMountRegistry()
+  const { pendingMountCallbacks } = registry
+  registry.isMounted = true
   
   // Execute all pending callbacks
   const callbacks = [...pendingMountCallbacks]
@@ -139,34 +304,31 @@ export function triggerMount(): void {
 
 /**
  * Trigger unmount phase - called by component lifecycle system
- * Runs cleanup functions for all active mount hooks
+ * Runs cleanup functions for all active mount hooks registered outside
+ * of components (components are unmounted with `unmountComponent`)
  * 
  * @internal
  */
 export function triggerUnmount(): void {
-  isMounted = false
+  const registry = getMountRegistry()
+  registry.isMounted = false
   
   // Run all cleanup functions
-  for (const state of activeMountHooks) {
-    if (state.cleanup) {
-      try {
-        state.cleanup()
-      } catch (error) {
-        console.error('[Zenith] Error in onMount cleanup:', error)
-      }
-      state.cleanup = null
-    }
+  for (const state of registry.activeMountHooks) {
+    runMountCleanup(state)
     state.mounted = false
   }
 }
 
 /**
- * Check if currently in mounted state
+ * Check if the current component (or, outside of components, the page)
+ * is mounted
  * 
  * @internal
  */
 export function getIsMounted(): boolean {
-  return isMounted
+  const lifecycle = getCurrentLifecycle()
+  return lifecycle ? lifecycle.mounted : getMountRegistry().isMounted
 }
 
 /**
@@ -175,8 +337,9 @@ export function getIsMounted(): boolean {
  * @internal
  */
 export function resetMountState(): void {
-  isMounted = false
-  pendingMountCallbacks.length = 0
-  activeMountHooks.clear()
+  const registry = getMountRegistry()
+  registry.isMounted = false
+  registry.pendingMountCallbacks.length = 0
+  registry.activeMountHooks.clear()
 }
 
@@ -18,19 +18,43 @@
  * })
  * ```
  * 
- * Note: This hook registers callbacks that will be executed by the
- * component lifecycle system when the component is disposed.
+ * Note: Inside a component, the callback runs when that component
+ * unmounts (after its child components). Outside of components, it runs
+ * when the page is torn down (`executeUnmountCallbacks`). When registered
+ * inside an owner scope, the callback also runs when that scope is
+ * disposed.
  */
 
+import { onCleanup, getOwner, removeCleanup, type Owner } from '../reactivity/owner'
+import { getRuntime, type ReactiveRuntime } from '../reactivity/runtime'
+import { getCurrentLifecycle } from './zen-component'
+import { reportLifecycleError } from './zen-error-captured'
+
 /**
  * Unmount callback type
  */
 export type UnmountCallback = () => void
 
 /**
- * Queue of registered unmount callbacks
+ * Unmount callbacks registered outside of components, one queue per
+ * reactive runtime
  */
-const unmountCallbacks: Set<UnmountCallback> = new Set()
+const unmountRegistries = new WeakMap<ReactiveRuntime, Set<() => void>>()
+
+/**
+ * Get the unmount callbacks of the active runtime
+ */
+function getUnmountCallbacks(): Set<() => void> {
+  const runtime = getRuntime()
+  let callbacks = unmountRegistries.get(runtime)
+  
+  if (!callbacks) {
+    callbacks = new Set()
+    unmountRegistries.set(runtime, callbacks)
+  }
+  
+  return callbacks
+}
 
 /**
  * Register a callback to run before component unmount
@@ -39,28 +63,49 @@ const unmountCallbacks: Set<UnmountCallback> = new Set()
  * @returns Dispose function to cancel the unmount callback
  */
 export function zenOnUnmount(callback: UnmountCallback): () => void {
-  unmountCallbacks.add(callback)
+  // Callbacks of a component run when it unmounts, others with the page
+  const unmountCallbacks = getCurrentLifecycle()?.unmountCallbacks ?? getUnmountCallbacks()
+  const owner = getOwner()
+  const run = () => runUnmountCallback(callback, owner)
+  unmountCallbacks.add(run)
+  
+  // Run on disposal of the enclosing scope (unless already executed)
+  const onDispose = onCleanup(() => {
+    if (unmountCallbacks.delete(run)) {
+      run()
+    }
+  })
   
   // Return dispose function
   return () => {
-    unmountCallbacks.delete(callback)
+    unmountCallbacks.delete(run)
+    if (owner) removeCleanup(owner, onDispose)
   }
 }
 
 /**
- * Execute all unmount callbacks
+ * Run a single unmount callback, reporting errors
+ */
+function runUnmountCallback(callback: UnmountCallback, owner: Owner | null): void {
+  try {
+    callback()
+  } catch (error) {
+    reportLifecycleError(error, owner, 'onUnmount callback')
+  }
+}
+
+/**
+ * Execute all unmount callbacks registered outside of components
  * Called by the component lifecycle system before disposal
  * 
  * @internal
  */
 export function executeUnmountCallbacks(): void {
+  const unmountCallbacks = getUnmountCallbacks()
+  
   // Execute in registration order
-  for (const callback of unmountCallbacks) {
-    try {
-      callback()
-    } catch (error) {
-      console.error('[Zenith] Error in onUnmount callback:', error)
-    }
+  for (const run of unmountCallbacks) {
+    run()
   }
   
   // Clear all callbacks after execution
@@ -74,7 +119,7 @@ export function executeUnmountCallbacks(): void {
  * @internal
  */
 export function getUnmountCallbackCount(): number {
-  return unmountCallbacks.size
+  return getUnmountCallbacks().size
 }
 
 /**
@@ -83,6 +128,6 @@ export function getUnmountCallbackCount(): number {
  * @internal
  */
 export function resetUnmountState(): void {
-  unmountCallbacks.clear()
+  getUnmountCallbacks().clear()
 }
 
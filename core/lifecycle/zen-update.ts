@@ -0,0 +1,81 @@
+/**
+ * Zenith OnUpdate - Post-Update Lifecycle Hook
+ * 
+ * Registers a callback to run after reactive updates have been applied:
+ * once per effect flush, after every queued effect (including the ones
+ * updating the DOM) has run.
+ * 
+ * Features:
+ * - Runs after the DOM reflects the latest state
+ * - Runs once per flush, however many effects ran
+ * - Does not run before the component has mounted
+ * - Callbacks run untracked
+ * 
+ * @example
+ * ```ts
+ * zenOnUpdate(() => {
+ *   // Keep the newest message in view
+ *   list.scrollTop = list.scrollHeight
+ * })
+ * ```
+ * 
+ * Note: Inside a component, the callback runs while that component is
+ * mounted and stops when it unmounts. Outside of components, it runs
+ * while the page is mounted. Updates made by the callback itself do not
+ * trigger it again.
+ */
+
+import { onCleanup, getOwner, type Owner } from '../reactivity/owner'
+import { runUntracked } from '../reactivity/tracking'
+import { onEffectsFlushed } from '../reactivity/scheduler'
+import { getCurrentLifecycle } from './zen-component'
+import { getIsMounted } from './zen-mount'
+import { reportLifecycleError } from './zen-error-captured'
+
+/**
+ * Update callback type
+ */
+export type UpdateCallback = () => void
+
+/**
+ * Register a callback to run after reactive updates
+ * 
+ * @param callback - Function to run after each flush
+ * @returns Dispose function to stop the callback
+ */
+export function zenOnUpdate(callback: UpdateCallback): () => void {
+  const lifecycle = getCurrentLifecycle()
+  const owner = getOwner()
+  let running = false
+  
+  const dispose = onEffectsFlushed(() => {
+    // Only updates of a mounted component (or page) count
+    if (lifecycle ? !lifecycle.mounted : !getIsMounted()) return
+    if (running) return
+    
+    running = true
+    
+    try {
+      runUpdateCallback(callback, owner)
+    } finally {
+      running = false
+    }
+  })
+  
+  // Stop together with the enclosing scope
+  onCleanup(dispose)
+  
+  // Return dispose function
+  return dispose
+}
+
+/**
+ * Run a single update callback, reporting errors
+ */
+function runUpdateCallback(callback: UpdateCallback, owner: Owner | null): void {
+  try {
+    runUntracked(callback)
+  } catch (error) {
+    reportLifecycleError(error, owner, 'onUpdate callback')
+  }
+}
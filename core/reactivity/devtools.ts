@@ -0,0 +1,386 @@
+/**
+ * Zenith Reactive Graph Introspection
+ * 
+ * Development-only registry of the reactive graph for devtools. Signals,
+ * memos, effects and state properties register themselves as nodes (with
+ * optional debug names); edges are read live from tracking contexts.
+ * 
+ * In production builds (`NODE_ENV === 'production'`) nothing is recorded:
+ * every call site is guarded by a `process.env.NODE_ENV` read, which
+ * bundlers replace and fold (constants are not inlined across modules, so
+ * the read is repeated at each guard), and the query functions return
+ * empty results. The read is preceded by a `typeof process` check, so
+ * code loaded without `process` (an unbundled browser module) runs as in
+ * production instead of throwing.
+ * 
+ * A browser devtools panel can attach through
+ * `globalThis.__ZENITH_DEVTOOLS__`, which exposes the same functions.
+ * 
+ * @example
+ * ```ts
+ * const count = zenSignal(0, { name: 'count' })
+ * const doubled = zenMemo(() => count() * 2, { name: 'doubled' })
+ * zenEffect(() => console.log(doubled()), { name: 'logger' })
+ * 
+ * inspect(count)
+ * // { name: 'count', kind: 'signal', value: 0, subscribers: [doubled], ... }
+ * 
+ * getDependencyGraph()
+ * // { nodes: [count, doubled, logger], edges: [count → doubled, doubled → logger] }
+ * 
+ * const stop = onGraphChange(event => console.log(event.type, event.node.name))
+ * ```
+ */
+
+import type { Subscriber, TrackingContext } from './tracking'
+
+/**
+ * Kind of reactive node
+ */
+export type NodeKind = 'signal' | 'memo' | 'effect' | 'state'
+
+/**
+ * Public view of a reactive node
+ */
+export interface DebugNode {
+  /** Unique node id */
+  id: number
+  /** Node kind */
+  kind: NodeKind
+  /** Debug name (explicit, or generated from kind and id) */
+  name: string
+  /** Number of times the node ran (memos and effects) */
+  runs: number
+  /** Duration of the last run in milliseconds */
+  lastRunDuration: number | null
+  /** Timestamp of the last run (performance.now / Date.now) */
+  lastRunAt: number | null
+  /** Whether the node has been disposed */
+  disposed: boolean
+}
+
+/**
+ * Dependency edge - `target` re-runs when `source` changes
+ */
+export interface DependencyEdge {
+  /** Id of the node being read */
+  source: number
+  /** Id of the memo or effect reading it */
+  target: number
+}
+
+/**
+ * Snapshot of the reactive graph
+ */
+export interface DependencyGraph {
+  nodes: DebugNode[]
+  edges: DependencyEdge[]
+}
+
+/**
+ * Detailed view of a single node
+ */
+export interface NodeInspection extends DebugNode {
+  /** Current value (signals and memos) */
+  value?: unknown
+  /** Nodes this node reads */
+  dependencies: DebugNode[]
+  /** Nodes reading this node */
+  subscribers: DebugNode[]
+}
+
+/**
+ * Graph change event delivered to devtools listeners
+ */
+export interface GraphEvent {
+  type: 'create' | 'dispose' | 'run' | 'update'
+  node: DebugNode
+}
+
+/**
+ * Listener for graph change events
+ */
+export type GraphListener = (event: GraphEvent) => void
+
+/**
+ * Options for registering a node
+ */
+interface NodeRegistration {
+  /** Subscriber set of the value the node provides (signals, memos, state) */
+  source?: Set<Subscriber>
+  /** Tracking context of the node (memos, effects) */
+  context?: TrackingContext
+  /** Public handle passed to inspect() (signal, memo or effect dispose fn) */
+  handle?: object
+}
+
+/**
+ * Internal node record - references are weak so the registry never keeps
+ * disposed or unreachable nodes alive
+ */
+interface NodeRecord {
+  node: DebugNode
+  source: WeakRef<Set<Subscriber>> | null
+  context: WeakRef<TrackingContext> | null
+  handle: WeakRef<object> | null
+}
+
+let nextId = 1
+const records = new Map<number, NodeRecord>()
+const recordsBySource = new WeakMap<Set<Subscriber>, NodeRecord>()
+const recordsByContext = new WeakMap<TrackingContext, NodeRecord>()
+const recordsBySubscriber = new WeakMap<Subscriber, NodeRecord>()
+const recordsByHandle = new WeakMap<object, NodeRecord>()
+const listeners = new Set<GraphListener>()
+
+/**
+ * Drops the records of collected nodes (created on first registration)
+ */
+let collected: FinalizationRegistry<number> | null = null
+
+/**
+ * Current high-resolution time
+ */
+export function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now()
+}
+
+/**
+ * Emit a graph event to all listeners
+ */
+function emit(type: GraphEvent['type'], record: NodeRecord): void {
+  for (const listener of [...listeners]) {
+    try {
+      listener({ type, node: { ...record.node } })
+    } catch (error) {
+      console.error('[Zenith] Error in devtools listener:', error)
+    }
+  }
+}
+
+/**
+ * Register a reactive node
+ * 
+ * @internal Called by the reactive primitives in development
+ */
+export function registerNode(kind: NodeKind, name: string | undefined, registration: NodeRegistration): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return
+  
+  const id = nextId++
+  const record: NodeRecord = {
+    node: {
+      id,
+      kind,
+      name: name ?? `${kind}#${id}`,
+      runs: 0,
+      lastRunDuration: null,
+      lastRunAt: null,
+      disposed: false
+    },
+    source: registration.source ? new WeakRef(registration.source) : null,
+    context: registration.context ? new WeakRef(registration.context) : null,
+    handle: registration.handle ? new WeakRef(registration.handle) : null
+  }
+  
+  records.set(id, record)
+  
+  // Keep the map from growing with nodes that were never disposed
+  if (typeof FinalizationRegistry !== 'undefined') {
+    collected ??= new FinalizationRegistry(collectedId => records.delete(collectedId))
+    if (registration.source) collected.register(registration.source, id)
+    if (registration.context) collected.register(registration.context, id)
+  }
+  
+  if (registration.source) recordsBySource.set(registration.source, record)
+  if (registration.context) {
+    recordsByContext.set(registration.context, record)
+    recordsBySubscriber.set(registration.context.execute, record)
+  }
+  if (registration.handle) recordsByHandle.set(registration.handle, record)
+  
+  emit('create', record)
+}
+
+/**
+ * Record a run of a memo or effect
+ * 
+ * @internal
+ */
+export function recordRun(context: TrackingContext, startedAt: number): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return
+  
+  const record = recordsByContext.get(context)
+  if (!record) return
+  
+  record.node.runs++
+  record.node.lastRunAt = startedAt
+  record.node.lastRunDuration = now() - startedAt
+  
+  emit('run', record)
+}
+
+/**
+ * Record a value change of a signal
+ * 
+ * @internal
+ */
+export function recordUpdate(source: Set<Subscriber>): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return
+  
+  const record = recordsBySource.get(source)
+  if (record) emit('update', record)
+}
+
+/**
+ * Record the disposal of a node
+ * 
+ * @internal
+ */
+export function recordDispose(context: TrackingContext): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return
+  
+  const record = recordsByContext.get(context)
+  if (!record || record.node.disposed) return
+  
+  record.node.disposed = true
+  records.delete(record.node.id)
+  
+  emit('dispose', record)
+}
+
+/**
+ * Get a node by its subscriber set or tracking context
+ * 
+ * @internal Used by diagnostics to name the nodes involved
+ */
+export function getDebugNode(key: Set<Subscriber> | TrackingContext): DebugNode | undefined {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return undefined
+  
+  const record = key instanceof Set ? recordsBySource.get(key) : recordsByContext.get(key)
+  return record ? { ...record.node } : undefined
+}
+
+/**
+ * Get the live records, dropping the ones that were garbage collected
+ */
+function liveRecords(): NodeRecord[] {
+  const live: NodeRecord[] = []
+  
+  for (const [id, record] of records) {
+    const alive =
+      (record.source === null || record.source.deref() !== undefined) &&
+      (record.context === null || record.context.deref() !== undefined)
+    
+    if (alive) {
+      live.push(record)
+    } else {
+      records.delete(id)
+    }
+  }
+  
+  return live
+}
+
+/**
+ * Resolve the node records a context depends on
+ */
+function dependencyRecords(record: NodeRecord): NodeRecord[] {
+  const context = record.context?.deref()
+  if (!context) return []
+  
+  const result: NodeRecord[] = []
+  for (const dependency of context.dependencies) {
+    const source = recordsBySource.get(dependency)
+    if (source) result.push(source)
+  }
+  
+  return result
+}
+
+/**
+ * Resolve the node records subscribed to a source
+ */
+function subscriberRecords(record: NodeRecord): NodeRecord[] {
+  const source = record.source?.deref()
+  if (!source) return []
+  
+  const result: NodeRecord[] = []
+  for (const subscriber of source) {
+    const candidate = recordsBySubscriber.get(subscriber)
+    if (candidate && !candidate.node.disposed) result.push(candidate)
+  }
+  
+  return result
+}
+
+/**
+ * Get a snapshot of the whole reactive graph
+ * 
+ * Returns an empty graph in production builds.
+ */
+export function getDependencyGraph(): DependencyGraph {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return { nodes: [], edges: [] }
+  
+  const live = liveRecords()
+  const edges: DependencyEdge[] = []
+  
+  for (const record of live) {
+    for (const source of dependencyRecords(record)) {
+      edges.push({ source: source.node.id, target: record.node.id })
+    }
+  }
+  
+  return {
+    nodes: live.map(record => ({ ...record.node })),
+    edges
+  }
+}
+
+/**
+ * Inspect a signal, memo or effect (pass the effect's dispose function)
+ * 
+ * Returns undefined for unknown values and in production builds.
+ * 
+ * @param handle - The reactive primitive to inspect
+ */
+export function inspect(handle: object): NodeInspection | undefined {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return undefined
+  
+  const record = recordsByHandle.get(handle)
+  if (!record) return undefined
+  
+  const inspection: NodeInspection = {
+    ...record.node,
+    dependencies: dependencyRecords(record).map(r => ({ ...r.node })),
+    subscribers: subscriberRecords(record).map(r => ({ ...r.node }))
+  }
+  
+  // Signals and memos expose an untracked peek()
+  const peekable = handle as { peek?: () => unknown }
+  if (typeof peekable.peek === 'function') {
+    inspection.value = peekable.peek()
+  }
+  
+  return inspection
+}
+
+/**
+ * Subscribe to graph changes (node creation, disposal, runs and updates)
+ * 
+ * @param listener - Called for every graph event
+ * @returns Unsubscribe function
+ */
+export function onGraphChange(listener: GraphListener): () => void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return () => {}
+  
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Expose the API for browser devtools panels
+if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production' && typeof globalThis !== 'undefined') {
+  const target = globalThis as { __ZENITH_DEVTOOLS__?: unknown }
+  target.__ZENITH_DEVTOOLS__ ??= { getDependencyGraph, inspect, onGraphChange }
+}
@@ -0,0 +1,232 @@
+/**
+ * Zenith Reactivity Diagnostics
+ * 
+ * Development-only checks for common reactivity mistakes that otherwise
+ * fail silently:
+ * 
+ * - Writing a signal inside a memo computation (memos must be pure)
+ * - Reading a signal inside an effect cleanup (the read is not tracked)
+ * - Creating an effect outside of any owner scope (it is never disposed)
+ * - Effects that keep re-triggering each other (infinite update loops)
+ * 
+ * Warnings name the nodes involved (see `SignalOptions.name`) and the
+ * location in user code. Each warning is reported once per location.
+ * Like devtools, every check is guarded by a `process.env.NODE_ENV` read
+ * and is removed from production builds.
+ * 
+ * @example
+ * ```ts
+ * const count = zenSignal(0, { name: 'count' })
+ * 
+ * zenEffect(() => {
+ *   count(count() + 1)
+ * }, { name: 'increment' })
+ * 
+ * // [Zenith] Effect loop detected: effects kept re-triggering for 100 flushes.
+ * // Cycle: effect "increment" writes signal "count"
+ * //     effect "increment" created at main.ts:3:1
+ * ```
+ */
+
+import { getCurrentContext, type Subscriber, type TrackingContext } from './tracking'
+import { getRuntime } from './runtime'
+import { getDebugNode } from './devtools'
+import type { Owner } from './owner'
+
+/**
+ * A signal write made by an effect while effects were flushing
+ */
+interface FlushWrite {
+  writer: TrackingContext
+  source: Set<Subscriber>
+}
+
+/**
+ * Frames of the reactivity internals, skipped when locating user code
+ */
+const INTERNAL_FRAME = /[\\/]reactivity[\\/][\w.-]+\.[cm]?[jt]s\b/
+
+/**
+ * Number of flush writes kept to describe an effect loop
+ */
+const MAX_RECORDED_WRITES = 32
+
+/**
+ * Warnings already reported, by kind and location
+ */
+const reported = new Set<string>()
+
+/**
+ * Where effects were created (only captured in development)
+ */
+const effectLocations = new WeakMap<TrackingContext, string>()
+
+/**
+ * Effect cleanups currently running
+ */
+const runningCleanups: TrackingContext[] = []
+
+/**
+ * Most recent signal writes made by effects during a flush
+ */
+let flushWrites: FlushWrite[] = []
+
+/**
+ * Location of the first stack frame outside of the reactivity internals
+ */
+function callerLocation(): string | undefined {
+  const frames = new Error().stack?.split('\n').slice(1) ?? []
+  const frame = frames.find(line => line.trim().startsWith('at ') && !INTERNAL_FRAME.test(line))
+  
+  return frame?.trim().replace(/^at\s+/, '')
+}
+
+/**
+ * Describe a node by kind and debug name (e.g. `signal "count"`)
+ */
+function describe(key: Set<Subscriber> | TrackingContext, fallback: string): string {
+  const node = getDebugNode(key)
+  return node ? `${node.kind} "${node.name}"` : fallback
+}
+
+/**
+ * Report a warning once per kind and location
+ */
+function warnOnce(kind: string, message: string, location = callerLocation()): void {
+  const key = `${kind}@${location ?? message}`
+  if (reported.has(key)) return
+  reported.add(key)
+  
+  console.warn(`[Zenith] ${message}${location ? `\n    at ${location}` : ''}`)
+}
+
+/**
+ * Check a signal write
+ * 
+ * Warns when the signal is written by a memo computation, and records
+ * writes made by effects while flushing to describe effect loops.
+ * Untracked sections (e.g. the map function of mapArray) are not checked.
+ * 
+ * @internal Called by signals before writing in development
+ * @param source - Subscriber set of the written signal
+ */
+export function checkSignalWrite(source: Set<Subscriber>): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return
+  
+  const context = getCurrentContext()
+  if (!context) return
+  
+  if (context.subscribers) {
+    warnOnce(
+      'memo-write',
+      `Write to ${describe(source, 'a signal')} inside the computation of ${describe(context, 'a memo')}. ` +
+      'Memos should only derive values - write signals in an effect or event handler instead.'
+    )
+    return
+  }
+  
+  if (getRuntime().flushing) {
+    flushWrites.push({ writer: context, source })
+    if (flushWrites.length > MAX_RECORDED_WRITES) {
+      flushWrites = flushWrites.slice(-MAX_RECORDED_WRITES)
+    }
+  }
+}
+
+/**
+ * Check a tracked read
+ * 
+ * Warns when a reactive value is read inside an effect cleanup, where the
+ * read does not subscribe the effect.
+ * 
+ * @internal Called when a dependency is tracked and DEV is enabled
+ * @param source - Subscriber set of the value being read
+ */
+export function checkTrackedRead(source: Set<Subscriber>): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production' || runningCleanups.length === 0) return
+  
+  const effect = runningCleanups[runningCleanups.length - 1]!
+  
+  warnOnce(
+    'cleanup-read',
+    `Read of ${describe(source, 'a reactive value')} inside the cleanup of ${describe(effect, 'an effect')}. ` +
+    'Cleanups run untracked - use peek() or read the value in the effect body.'
+  )
+}
+
+/**
+ * Run an effect cleanup, marking it for read checks
+ * 
+ * @internal Called by effects in development
+ * @param context - Tracking context of the effect
+ * @param cleanup - The cleanup returned by the effect
+ */
+export function runEffectCleanup(context: TrackingContext, cleanup: () => void): void {
+  runningCleanups.push(context)
+  
+  try {
+    cleanup()
+  } finally {
+    runningCleanups.pop()
+  }
+}
+
+/**
+ * Check a new effect
+ * 
+ * Records where the effect was created and warns when it has no owner
+ * scope to dispose it.
+ * 
+ * @internal Called by effects on creation in development
+ * @param context - Tracking context of the effect
+ * @param owner - The scope the effect was created in
+ */
+export function checkEffectCreation(context: TrackingContext, owner: Owner | null): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return
+  
+  const location = callerLocation()
+  if (location) effectLocations.set(context, location)
+  
+  if (!owner) {
+    warnOnce(
+      'unowned-effect',
+      `Effect created outside of an owner scope: ${describe(context, 'the effect')} is never disposed automatically. ` +
+      'Create it inside a component, createRoot() or another effect, or call its dispose function.',
+      location
+    )
+  }
+}
+
+/**
+ * Report an effect loop detected by the scheduler
+ * 
+ * Describes the cycle from the signal writes made by effects during the
+ * flush.
+ * 
+ * @internal Called by the scheduler in development
+ * @param iterations - Number of flush iterations before giving up
+ */
+export function reportEffectLoop(iterations: number): void {
+  if (typeof process === 'undefined' || process.env.NODE_ENV === 'production') return
+  
+  // Distinct writes in the order they last happened
+  const steps = new Map<string, FlushWrite>()
+  for (const write of flushWrites) {
+    const step = `${describe(write.writer, 'an effect')} writes ${describe(write.source, 'a signal')}`
+    steps.delete(step)
+    steps.set(step, write)
+  }
+  flushWrites = []
+  
+  const writers = new Set([...steps.values()].map(write => write.writer))
+  const locations = [...writers]
+    .filter(writer => effectLocations.has(writer))
+    .map(writer => `\n    ${describe(writer, 'effect')} created at ${effectLocations.get(writer)}`)
+  
+  console.error(
+    `[Zenith] Effect loop detected: effects kept re-triggering for ${iterations} flushes. ` +
+    'Pending effects were dropped.' +
+    (steps.size > 0 ? `\nCycle: ${[...steps.keys()].join(' → ')}` : '') +
+    locations.join('')
+  )
+}
@@ -7,13 +7,38 @@
  */
 
 // Core primitives - explicit names
-import { zenSignal as _zenSignal, type Signal } from './zen-signal'
+import {
+  zenSignal as _zenSignal,
+  type Signal,
+  type ReadonlySignal,
+  type WritableSignal,
+  type SignalSetter,
+  type SignalOptions,
+  type EqualityFn
+} from './zen-signal'
 import { zenState as _zenState } from './zen-state'
-import { zenEffect as _zenEffect, type EffectFn, type DisposeFn } from './zen-effect'
-import { zenMemo as _zenMemo, type Memo } from './zen-memo'
+import { zenEffect as _zenEffect, type EffectFn, type EffectOptions, type DisposeFn } from './zen-effect'
+import { zenMemo as _zenMemo, type Memo, type MemoOptions } from './zen-memo'
 import { zenRef as _zenRef, type Ref } from './zen-ref'
 import { zenBatch as _zenBatch } from './zen-batch'
 import { zenUntrack as _zenUntrack } from './zen-untrack'
+import {
+  zenResource as _zenResource,
+  type Resource,
+  type ResourceSource,
+  type ResourceFetcher,
+  type ResourceFetcherInfo,
+  type ResourceOptions
+} from './zen-resource'
+import {
+  zenWatch as _zenWatch,
+  type WatchSource,
+  type WatchSourceValues,
+  type WatchCallback,
+  type WatchCleanup,
+  type WatchOptions
+} from './zen-watch'
+import { zenHistory as _zenHistory, type History, type HistoryOptions } from './zen-history'
 
 // Re-export with explicit names
 export const zenSignal = _zenSignal
@@ -23,9 +48,119 @@ export const zenMemo = _zenMemo
 export const zenRef = _zenRef
 export const zenBatch = _zenBatch
 export const zenUntrack = _zenUntrack
+export const zenResource = _zenResource
+export const zenWatch = _zenWatch
+export const zenHistory = _zenHistory
 
 // Re-export types
-export type { Signal, Memo, Ref, EffectFn, DisposeFn }
+export type { Signal, SignalOptions, EqualityFn, Memo, MemoOptions, Ref, EffectFn, EffectOptions, DisposeFn }
+export type { ReadonlySignal, WritableSignal, SignalSetter }
+export type { Resource, ResourceSource, ResourceFetcher, ResourceFetcherInfo, ResourceOptions }
+export type { WatchSource, WatchSourceValues, WatchCallback, WatchCleanup, WatchOptions }
+export type { History, HistoryOptions }
+
+// Signal pairs ([get, set])
+export { createSignal } from './zen-signal'
+
+// State utilities
+export {
+  type DeepReadonly,
+  toRaw,
+  markRaw,
+  readonly,
+  shallowState,
+  isReactive,
+  isReadonly
+} from './zen-state'
+
+// List mapping
+export {
+  type ListSource,
+  type MapArrayOptions,
+  type IndexArrayOptions,
+  mapArray,
+  indexArray
+} from './zen-list'
+
+// Keyed selection
+export { type SelectorEqualsFn, createSelector } from './zen-selector'
+
+// State change streams
+export { type Patch, type PatchListener, observePatches, applyPatches } from './zen-patches'
+
+// Persistence
+export {
+  type StorageAdapter,
+  type Serializer,
+  type PersistOptions,
+  type PersistedSignal,
+  persistedSignal,
+  persistedState,
+  createMemoryStorage,
+  createWebStorage
+} from './zen-persisted'
+
+// Scheduling
+export {
+  type SchedulerMode,
+  setSchedulerMode,
+  getSchedulerMode,
+  flushSync,
+  nextTick
+} from './scheduler'
+
+// Transitions
+export { type DeferredOptions, startTransition, isPending, deferred } from './transition'
+
+// Interop (Observables, async iterables, TC39 signals)
+export {
+  type Observer,
+  type Subscription,
+  type Subscribable,
+  type Observable,
+  type ExternalSource,
+  type TC39SignalAPI,
+  type TC39Readable,
+  type TC39State,
+  type TC39Watcher,
+  from,
+  fromTC39Signal,
+  toTC39Signal
+} from './interop'
+
+// Devtools introspection (no-op in production)
+export {
+  type NodeKind,
+  type DebugNode,
+  type DependencyEdge,
+  type DependencyGraph,
+  type NodeInspection,
+  type GraphEvent,
+  type GraphListener,
+  getDependencyGraph,
+  inspect,
+  onGraphChange
+} from './devtools'
+
+// Isolated runtimes
+export {
+  type ReactiveRuntime,
+  createReactiveRuntime,
+  getDefaultRuntime,
+  runInRuntime
+} from './runtime'
+
+// Ownership scopes
+export {
+  type Owner,
+  type ErrorHandler,
+  createRoot,
+  getOwner,
+  runWithOwner,
+  onCleanup,
+  onError,
+  catchError
+} from './owner'
 
 // Internal tracking utilities (for advanced use)
 export {
@@ -51,4 +186,6 @@ export const memo = _zenMemo
 export const ref = _zenRef
 export const batch = _zenBatch
 export const untrack = _zenUntrack
+export const resource = _zenResource
+export const watch = _zenWatch
 
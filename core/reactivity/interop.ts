@@ -0,0 +1,335 @@
+/**
+ * Zenith Interop - Observables, Async Iterators and TC39 Signals
+ *
+ * Bridges between Zenith's reactive graph and other reactive sources:
+ *
+ * - `from(observable | asyncIterable)` turns a stream (RxJS, websocket
+ *   iterators, ...) into a read-only signal
+ * - Every signal and memo is an interop Observable (`Symbol.observable`)
+ *   and an async iterable (`Symbol.asyncIterator`), so RxJS `from(count)`
+ *   and `for await (const value of count)` work out of the box
+ * - `fromTC39Signal` / `toTC39Signal` connect to the TC39 `Signal.State` /
+ *   `Signal.Computed` proposal (polyfill), so libraries can share graphs
+ *
+ * @example
+ * ```ts
+ * const ticks = from(interval(1000))          // RxJS observable
+ * const messages = from(socket.messages())    // async iterable
+ *
+ * zenEffect(() => console.log(ticks(), messages()))
+ *
+ * const count = zenSignal(0)
+ * rxFrom(count).pipe(map(n => n * 2)).subscribe(console.log)
+ *
+ * for await (const value of count) {
+ *   if (value > 10) break
+ * }
+ *
+ * import { Signal } from 'signal-polyfill'
+ * const shared = toTC39Signal(Signal, count)        // Signal.Computed
+ * const mirrored = fromTC39Signal(Signal, shared)   // Zenith signal
+ * ```
+ */
+
+import { zenSignal, type ReadonlySignal } from './zen-signal'
+import { zenEffect } from './zen-effect'
+import { zenUntrack } from './zen-untrack'
+import { createRoot, getOwner, onCleanup, onError, handleError } from './owner'
+
+/**
+ * Observer of an Observable
+ */
+export interface Observer<T> {
+  next?(value: T): void
+  error?(error: unknown): void
+  complete?(): void
+}
+
+/**
+ * Subscription returned by an Observable
+ */
+export interface Subscription {
+  unsubscribe(): void
+}
+
+/**
+ * Minimal Observable - anything with a compatible subscribe method
+ */
+export interface Subscribable<T> {
+  subscribe(observer: Observer<T>): Subscription | (() => void)
+}
+
+/**
+ * Observable returned by signals and memos
+ */
+export interface Observable<T> extends Subscribable<T> {
+  subscribe(observer: Observer<T> | ((value: T) => void)): Subscription
+}
+
+/**
+ * Sources accepted by from()
+ */
+export type ExternalSource<T> = Subscribable<T> | AsyncIterable<T>
+
+/**
+ * Minimal shape of the TC39 Signal namespace (e.g. from `signal-polyfill`)
+ */
+export interface TC39SignalAPI {
+  State: new <T>(value: T) => TC39State<T>
+  Computed: new <T>(fn: () => T) => TC39Readable<T>
+  subtle: {
+    Watcher: new (notify: () => void) => TC39Watcher
+  }
+}
+
+/**
+ * A readable TC39 signal (State or Computed)
+ */
+export interface TC39Readable<T> {
+  get(): T
+}
+
+/**
+ * A writable TC39 signal
+ */
+export interface TC39State<T> extends TC39Readable<T> {
+  set(value: T): void
+}
+
+/**
+ * A TC39 signal watcher
+ */
+export interface TC39Watcher {
+  watch(...signals: TC39Readable<unknown>[]): void
+  unwatch(...signals: TC39Readable<unknown>[]): void
+}
+
+/**
+ * Key of the interop Observable method (`Symbol.observable` where it is
+ * defined, like RxJS)
+ */
+const observableKey: symbol | string =
+  (typeof Symbol === 'function' && (Symbol as { observable?: symbol }).observable) || '@@observable'
+
+/**
+ * Create a read-only signal from an Observable or async iterable
+ *
+ * The subscription (or iteration) lasts until the owner scope is
+ * disposed. Errors of the stream are passed to the scope's error
+ * handlers (and thrown if there are none).
+ *
+ * @param source - Observable, interop Observable or async iterable
+ * @param initialValue - Value until the source emits
+ * @returns A read-only signal of the latest emitted value
+ */
+export function from<T>(source: ExternalSource<T>, initialValue: T): ReadonlySignal<T>
+export function from<T>(source: ExternalSource<T>): ReadonlySignal<T | undefined>
+export function from<T>(source: ExternalSource<T>, initialValue?: T): ReadonlySignal<T | undefined> {
+  const value = zenSignal<T | undefined>(initialValue, { equals: false })
+  const owner = getOwner()
+  const fail = (error: unknown) => handleError(error, owner)
+
+  const interop = (source as unknown as Record<PropertyKey, unknown>)[observableKey]
+  const observable = typeof interop === 'function'
+    ? (interop.call(source) as Subscribable<T>)
+    : source
+
+  if (typeof (observable as Subscribable<T>).subscribe === 'function') {
+    const subscription = (observable as Subscribable<T>).subscribe({
+      next: next => value(next),
+      error: fail
+    })
+
+    onCleanup(() => {
+      if (typeof subscription === 'function') {
+        subscription()
+      } else {
+        subscription.unsubscribe()
+      }
+    })
+  } else {
+    const iterator = (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+    let stopped = false
+
+    // Nobody awaits the iteration - report instead of rejecting
+    const report = (error: unknown) => console.error('[Zenith] Unhandled error in async iterable:', error)
+
+    onCleanup(() => {
+      stopped = true
+      iterator.return?.().then(undefined, report)
+    })
+
+    const pull = (): void => {
+      iterator.next().then(result => {
+        if (stopped || result.done) return
+        value(result.value)
+        pull()
+      }, error => {
+        if (stopped) return
+
+        try {
+          fail(error)
+        } catch (unhandled) {
+          report(unhandled)
+        }
+      })
+    }
+
+    pull()
+  }
+
+  return value.asReadonly()
+}
+
+/**
+ * Interop Observable of a signal or memo (emits the current value first)
+ */
+function toObservable<T>(this: () => T): Observable<T> {
+  const read = this
+
+  const observable: Observable<T> = {
+    subscribe(observerOrNext) {
+      const observer = typeof observerOrNext === 'function'
+        ? { next: observerOrNext }
+        : observerOrNext
+
+      const dispose = createRoot(dispose => {
+        onError(error => observer.error?.(error))
+
+        zenEffect(() => {
+          const next = read()
+          zenUntrack(() => observer.next?.(next))
+        })
+
+        return dispose
+      })
+
+      return { unsubscribe: dispose }
+    }
+  }
+
+  ;(observable as unknown as Record<PropertyKey, unknown>)[observableKey] = () => observable
+
+  return observable
+}
+
+/**
+ * Async iterator over a signal or memo
+ *
+ * Yields the current value first, then each change. Values are not
+ * buffered: a slow consumer receives the latest value only.
+ */
+function toAsyncIterator<T>(this: () => T): AsyncIterableIterator<T> {
+  const read = this
+  let latest: { value: T } | null = null
+  let waiting: ((result: IteratorResult<T>) => void) | null = null
+  let done = false
+
+  const dispose = createRoot(dispose => {
+    zenEffect(() => {
+      const next = read()
+
+      if (waiting) {
+        const resolve = waiting
+        waiting = null
+        resolve({ value: next, done: false })
+      } else {
+        latest = { value: next }
+      }
+    })
+
+    return dispose
+  })
+
+  const finish = (): Promise<IteratorResult<T>> => {
+    done = true
+    dispose()
+    waiting?.({ value: undefined, done: true })
+    waiting = null
+    return Promise.resolve({ value: undefined, done: true })
+  }
+
+  return {
+    next() {
+      if (done) return Promise.resolve({ value: undefined, done: true })
+
+      if (latest) {
+        const { value } = latest
+        latest = null
+        return Promise.resolve({ value, done: false })
+      }
+
+      return new Promise(resolve => {
+        waiting = resolve
+      })
+    },
+
+    return: finish,
+
+    [Symbol.asyncIterator]() {
+      return this
+    }
+  }
+}
+
+/**
+ * Make a signal or memo an interop Observable and an async iterable
+ *
+ * @internal Called by signals and memos on creation
+ */
+export function attachInterop(target: () => unknown): void {
+  const record = target as unknown as Record<PropertyKey, unknown>
+  record[observableKey] = toObservable
+  record[Symbol.asyncIterator] = toAsyncIterator
+}
+
+/**
+ * Read a TC39 signal as a Zenith getter
+ *
+ * A watcher keeps the value in sync; it is unwatched with the owner scope.
+ *
+ * @param api - The TC39 `Signal` namespace (e.g. from `signal-polyfill`)
+ * @param source - A `Signal.State` or `Signal.Computed`
+ * @returns A read-only signal of the source value
+ */
+export function fromTC39Signal<T>(api: TC39SignalAPI, source: TC39Readable<T>): ReadonlySignal<T> {
+  const value = zenSignal(source.get())
+  let scheduled = false
+
+  // Watchers may not read signals while notifying - update on a microtask
+  const watcher = new api.subtle.Watcher(() => {
+    if (scheduled) return
+    scheduled = true
+
+    queueMicrotask(() => {
+      scheduled = false
+      watcher.watch()
+      value(source.get())
+    })
+  })
+
+  watcher.watch(source)
+  onCleanup(() => watcher.unwatch(source))
+
+  return value.asReadonly()
+}
+
+/**
+ * Expose a Zenith signal, memo or getter as a TC39 `Signal.Computed`
+ *
+ * The TC39 signal is updated by an effect that lives as long as the owner
+ * scope.
+ *
+ * @param api - The TC39 `Signal` namespace (e.g. from `signal-polyfill`)
+ * @param source - The Zenith value to expose
+ * @returns A read-only TC39 signal
+ */
+export function toTC39Signal<T>(api: TC39SignalAPI, source: () => T): TC39Readable<T> {
+  const state = new api.State(zenUntrack(source))
+
+  zenEffect(() => {
+    state.set(source())
+  })
+
+  return new api.Computed(() => state.get())
+}
@@ -0,0 +1,271 @@
+/**
+ * Zenith Ownership Scopes
+ * 
+ * An owner is a disposal scope. Every effect, memo and subscription
+ * created while an owner is active registers its teardown with that owner,
+ * so disposing the owner tears down everything created inside it.
+ * 
+ * Effects and memos are owners themselves: anything created while they run
+ * is disposed before they re-run, which keeps nested effects from leaking.
+ * 
+ * @example
+ * ```ts
+ * const count = zenSignal(0)
+ * 
+ * createRoot(dispose => {
+ *   zenEffect(() => {
+ *     console.log('Outer:', count())
+ * 
+ *     // Disposed and re-created every time the outer effect re-runs
+ *     zenEffect(() => console.log('Inner:', count()))
+ *   })
+ * 
+ *   onCleanup(() => console.log('Root disposed'))
+ * 
+ *   // Later: tear down both effects
+ *   dispose()
+ * })
+ * ```
+ * 
+ * Owners are also error boundaries: errors thrown by effects are passed to
+ * the nearest handler registered with `onError` or `catchError`.
+ * 
+ * @example
+ * ```ts
+ * catchError(() => {
+ *   zenEffect(() => {
+ *     if (count() > 3) throw new Error('Too many')
+ *   })
+ * }, error => console.error('Caught:', error))
+ * ```
+ */
+
+import { runUntracked } from './tracking'
+import { getRuntime } from './runtime'
+
+/**
+ * Error handler registered on an owner
+ */
+export type ErrorHandler = (error: unknown) => void
+
+/**
+ * Owner - a disposal scope in the owner tree
+ */
+export interface Owner {
+  /** Parent scope (used for lookups; roots are not disposed with it) */
+  owner: Owner | null
+  /** Cleanup callbacks, run in reverse registration order */
+  cleanups: (() => void)[]
+  /** Whether the scope has been disposed */
+  disposed: boolean
+  /** Error handlers for errors thrown inside the scope */
+  handlers: ErrorHandler[] | null
+}
+
+/**
+ * Get the currently active owner (if any)
+ */
+export function getOwner(): Owner | null {
+  return getRuntime().owner
+}
+
+/**
+ * Create a new owner
+ * 
+ * The owner is linked to its parent but not registered with it; callers
+ * decide how its disposal is tied to the parent.
+ * 
+ * @param parent - The parent scope (defaults to the current owner)
+ * @internal
+ */
+export function createOwner(parent: Owner | null = getOwner()): Owner {
+  return {
+    owner: parent,
+    cleanups: [],
+    disposed: false,
+    handlers: null
+  }
+}
+
+/**
+ * Run a function with the given owner as the active scope
+ * 
+ * Useful for re-entering a scope from async callbacks.
+ * 
+ * @param owner - The owner to activate (null to run without an owner)
+ * @param fn - The function to run
+ * @returns The return value of the function
+ */
+export function runWithOwner<T>(owner: Owner | null, fn: () => T): T {
+  const runtime = getRuntime()
+  const previous = runtime.owner
+  runtime.owner = owner
+  
+  try {
+    return fn()
+  } finally {
+    runtime.owner = previous
+  }
+}
+
+/**
+ * Register a callback to run when the current scope is disposed
+ * (or, inside an effect or memo, before it re-runs)
+ * 
+ * Has no effect when called outside of any owner.
+ * 
+ * @param fn - The cleanup callback
+ * @returns The same callback, for use with removeCleanup
+ */
+export function onCleanup(fn: () => void): () => void {
+  const owner = getOwner()
+  if (owner && !owner.disposed) {
+    owner.cleanups.push(fn)
+  }
+  
+  return fn
+}
+
+/**
+ * Unregister a cleanup callback from an owner
+ * 
+ * @internal
+ */
+export function removeCleanup(owner: Owner, fn: () => void): void {
+  const index = owner.cleanups.indexOf(fn)
+  if (index !== -1) {
+    owner.cleanups.splice(index, 1)
+  }
+}
+
+/**
+ * Run and clear all cleanups of an owner, keeping it usable
+ * 
+ * Error handlers registered during the previous run are dropped as well.
+ * A throwing cleanup does not prevent the remaining ones from running;
+ * the first error is passed to the owner's error handlers afterwards.
+ * 
+ * @internal
+ */
+export function cleanOwner(owner: Owner): void {
+  const cleanups = owner.cleanups
+  const handlers = owner.handlers
+  owner.cleanups = []
+  
+  let failure: { error: unknown } | null = null
+  
+  for (let i = cleanups.length - 1; i >= 0; i--) {
+    try {
+      cleanups[i]!()
+    } catch (error) {
+      failure ??= { error }
+    }
+  }
+  
+  if (failure) {
+    handleError(failure.error, owner)
+  }
+  
+  // Handlers belong to the run that registered them
+  if (owner.handlers === handlers) {
+    owner.handlers = null
+  }
+}
+
+/**
+ * Dispose an owner - run its cleanups and mark it disposed
+ * 
+ * @internal
+ */
+export function disposeOwner(owner: Owner): void {
+  if (owner.disposed) return
+  
+  owner.disposed = true
+  cleanOwner(owner)
+}
+
+/**
+ * Create a detached root scope
+ * 
+ * The root lives until its dispose function is called - it is not
+ * disposed along with the scope it was created in. The function runs
+ * untracked, so reads inside it do not subscribe an enclosing effect.
+ * 
+ * @param fn - Receives the dispose function for the root
+ * @returns The return value of the function
+ */
+export function createRoot<T>(fn: (dispose: () => void) => T): T {
+  const root = createOwner()
+  
+  return runWithOwner(root, () => runUntracked(() => fn(() => disposeOwner(root))))
+}
+
+/**
+ * Register an error handler on the current scope
+ * 
+ * Errors thrown by effects created in the scope (or nested scopes without
+ * their own handler) are passed to the handler instead of being thrown.
+ * Has no effect when called outside of any owner.
+ * 
+ * @param handler - Receives the thrown error
+ */
+export function onError(handler: ErrorHandler): void {
+  const owner = getOwner()
+  if (!owner) return
+  
+  if (owner.handlers) {
+    owner.handlers.push(handler)
+  } else {
+    owner.handlers = [handler]
+  }
+}
+
+/**
+ * Run a function inside an error boundary
+ * 
+ * Errors thrown synchronously by the function, and later by effects created
+ * inside it, are passed to the handler. The boundary is disposed with the
+ * scope it was created in.
+ * 
+ * @param fn - The function to run
+ * @param handler - Receives the thrown error
+ * @returns The return value of the function, or undefined if it threw
+ */
+export function catchError<T>(fn: () => T, handler: ErrorHandler): T | undefined {
+  const boundary = createOwner()
+  boundary.handlers = [handler]
+  onCleanup(() => disposeOwner(boundary))
+  
+  try {
+    return runWithOwner(boundary, fn)
+  } catch (error) {
+    handleError(error, boundary)
+    return undefined
+  }
+}
+
+/**
+ * Pass an error to the nearest error handler, walking up from an owner
+ * 
+ * A handler that throws passes its error on to the next boundary up.
+ * Errors without any handler are rethrown.
+ * 
+ * @internal
+ */
+export function handleError(error: unknown, owner: Owner | null): void {
+  for (let scope = owner; scope; scope = scope.owner) {
+    const handlers = scope.handlers
+    if (!handlers || handlers.length === 0) continue
+    
+    try {
+      for (const handler of [...handlers]) {
+        handler(error)
+      }
+      return
+    } catch (next) {
+      error = next
+    }
+  }
+  
+  throw error
+}
@@ -0,0 +1,63 @@
+/**
+ * Zenith Server Runtime Selection
+ * 
+ * Keeps the selected reactive runtime across `await` on the server by
+ * backing runtime selection with AsyncLocalStorage. Each request renders
+ * in its own runtime, so concurrent renders never share tracking state,
+ * batch queues or lifecycle registries.
+ * 
+ * Server-only: imports `node:async_hooks`. Import it from
+ * `@zenithbuild/core/server`, never from browser code.
+ * 
+ * @example
+ * ```ts
+ * import { createReactiveRuntime } from '@zenithbuild/core'
+ * import { enableAsyncRuntimeContext } from '@zenithbuild/core/server'
+ * 
+ * enableAsyncRuntimeContext()
+ * 
+ * async function handle(request: Request) {
+ *   const runtime = createReactiveRuntime()
+ *   return runtime.run(async () => {
+ *     const data = await loadData(request)
+ *     return render(data) // Still runs in `runtime`
+ *   })
+ * }
+ * ```
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { setRuntimeResolver, type ReactiveRuntime } from './runtime'
+
+/**
+ * Storage holding the runtime of the current async context
+ */
+let storage: AsyncLocalStorage<ReactiveRuntime> | null = null
+
+/**
+ * Enable AsyncLocalStorage-based runtime selection
+ * 
+ * After this call, `runtime.run()` and `runInRuntime()` select the runtime
+ * for the whole async call tree they start. Calling it again is a no-op.
+ */
+export function enableAsyncRuntimeContext(): void {
+  if (storage) return
+  
+  const als = new AsyncLocalStorage<ReactiveRuntime>()
+  storage = als
+  
+  setRuntimeResolver({
+    get: () => als.getStore(),
+    run: (runtime, fn) => als.run(runtime, fn)
+  })
+}
+
+/**
+ * Disable AsyncLocalStorage-based runtime selection
+ */
+export function disableAsyncRuntimeContext(): void {
+  if (!storage) return
+  
+  storage = null
+  setRuntimeResolver(null)
+}
@@ -0,0 +1,149 @@
+/**
+ * Zenith Reactive Runtime
+ * 
+ * A runtime owns all mutable state of the reactive system: the tracking
+ * stack, the active owner, the batch queue and (through the lifecycle
+ * modules) the mount/unmount registry. Everything imported from
+ * `zenith/core` is bound to a default runtime, so most code never sees
+ * this module.
+ * 
+ * Separate runtimes isolate work that shares one process - concurrent
+ * server renders, or several test files in one worker.
+ * Effects belong to the runtime they were created in: writing a signal
+ * shared between runtimes queues each effect on its own runtime, which
+ * flushes it in its own scheduling mode.
+ * 
+ * @example
+ * ```ts
+ * const runtime = createReactiveRuntime()
+ * 
+ * runtime.run(() => {
+ *   const count = zenSignal(0)
+ *   zenEffect(() => console.log(count()))
+ *   triggerMount() // Only mounts hooks registered in this runtime
+ * })
+ * ```
+ * 
+ * `run` scopes the runtime for synchronous code. On the server, import
+ * `enableAsyncRuntimeContext` from `@zenithbuild/core/server` to keep the
+ * runtime selected across `await` via AsyncLocalStorage.
+ */
+
+import type { TrackingContext, Subscriber } from './tracking'
+import type { Owner } from './owner'
+import type { SchedulerMode } from './scheduler'
+import type { Transition } from './transition'
+
+/**
+ * Reactive runtime - isolated reactive state
+ */
+export interface ReactiveRuntime {
+  /** Stack of executing tracking contexts (null marks untracked sections) */
+  trackingStack: (TrackingContext | null)[]
+  /** The currently active owner */
+  owner: Owner | null
+  /** Scheduling mode of the effect queue */
+  schedulerMode: SchedulerMode
+  /** Batch depth counter - when > 0, effect execution is deferred */
+  batchDepth: number
+  /** Id of the current (or last) outermost batch */
+  batchId: number
+  /** Queue of effects to run on the next flush */
+  pendingEffects: Set<Subscriber>
+  /** Whether pending effects are currently being flushed */
+  flushing: boolean
+  /** Pending microtask flush (null when none is scheduled) */
+  scheduledFlush: Promise<void> | null
+  /** Transition waiting to be committed (null when none is pending) */
+  transition: Transition | null
+  /** Run a function with this runtime selected */
+  run<T>(fn: () => T): T
+}
+
+/**
+ * Pluggable runtime selection (e.g. AsyncLocalStorage on the server)
+ */
+export interface RuntimeResolver {
+  /** Get the runtime selected for the current async context */
+  get(): ReactiveRuntime | undefined
+  /** Run a function with a runtime selected for its async context */
+  run<T>(runtime: ReactiveRuntime, fn: () => T): T
+}
+
+/**
+ * Runtime selected synchronously by run()
+ */
+let activeRuntime: ReactiveRuntime | null = null
+
+/**
+ * Installed runtime resolver (if any)
+ */
+let resolver: RuntimeResolver | null = null
+
+/**
+ * Create a new, isolated reactive runtime
+ */
+export function createReactiveRuntime(): ReactiveRuntime {
+  const runtime: ReactiveRuntime = {
+    trackingStack: [],
+    owner: null,
+    schedulerMode: 'sync',
+    batchDepth: 0,
+    batchId: 0,
+    pendingEffects: new Set(),
+    flushing: false,
+    scheduledFlush: null,
+    transition: null,
+    run: fn => runInRuntime(runtime, fn)
+  }
+  
+  return runtime
+}
+
+/**
+ * The runtime used when no other runtime is selected
+ */
+const defaultRuntime = createReactiveRuntime()
+
+/**
+ * Get the default runtime
+ */
+export function getDefaultRuntime(): ReactiveRuntime {
+  return defaultRuntime
+}
+
+/**
+ * Get the currently selected runtime
+ * 
+ * @internal
+ */
+export function getRuntime(): ReactiveRuntime {
+  return activeRuntime ?? resolver?.get() ?? defaultRuntime
+}
+
+/**
+ * Run a function with the given runtime selected
+ * 
+ * @param runtime - The runtime to select
+ * @param fn - The function to run
+ * @returns The return value of the function
+ */
+export function runInRuntime<T>(runtime: ReactiveRuntime, fn: () => T): T {
+  const previous = activeRuntime
+  activeRuntime = runtime
+  
+  try {
+    return resolver ? resolver.run(runtime, fn) : fn()
+  } finally {
+    activeRuntime = previous
+  }
+}
+
+/**
+ * Install (or remove) a runtime resolver
+ * 
+ * @internal Used by the server entry to enable AsyncLocalStorage selection
+ */
+export function setRuntimeResolver(next: RuntimeResolver | null): void {
+  resolver = next
+}
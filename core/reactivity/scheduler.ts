@@ -0,0 +1,332 @@
+/**
+ * Zenith Scheduler - Effect Queue and Flushing
+ * 
+ * Every notification queues its effects here instead of running them
+ * inline. When the queue is flushed depends on the scheduling mode:
+ * 
+ * - `sync` (default): effects run as soon as the outermost batch ends,
+ *   i.e. synchronously inside the setter unless wrapped in `zenBatch`
+ * - `microtask`: effects are coalesced and run once on the next microtask,
+ *   so bursts of updates (drag handlers, websocket messages) cost one flush
+ * 
+ * Memos are pulled on read, so they are always up to date even while
+ * effects are still pending.
+ * 
+ * @example
+ * ```ts
+ * setSchedulerMode('microtask')
+ * 
+ * const x = zenSignal(0)
+ * zenEffect(() => console.log('x =', x()))
+ * 
+ * x(1)
+ * x(2)
+ * await nextTick() // Logs "x = 2" once
+ * 
+ * x(3)
+ * flushSync()      // Logs "x = 3" immediately
+ * ```
+ */
+
+import { runSubscriber, type Subscriber } from './tracking'
+import { getRuntime, runInRuntime, type ReactiveRuntime } from './runtime'
+import { reportEffectLoop } from './diagnostics'
+
+/**
+ * When queued effects are flushed
+ */
+export type SchedulerMode = 'sync' | 'microtask'
+
+/**
+ * Flush iterations after which effects are considered to be looping
+ * (development only)
+ */
+const MAX_FLUSH_ITERATIONS = 100
+
+/**
+ * Runtime each effect was created in
+ */
+const effectRuntimes = new WeakMap<Subscriber, ReactiveRuntime>()
+
+/**
+ * Other runtimes that received effects during a runtime's batch
+ */
+const otherRuntimes = new WeakMap<ReactiveRuntime, Set<ReactiveRuntime>>()
+
+/**
+ * Listeners called after a flush that ran effects, one set per runtime
+ */
+const flushListeners = new WeakMap<ReactiveRuntime, Set<() => void>>()
+
+/*
+ * The mode, batch depth, effect queue and flush state live on the active
+ * runtime, so separate runtimes never flush each other's effects.
+ */
+
+/**
+ * Set the scheduling mode
+ * 
+ * @param next - `sync` to flush when batches end, `microtask` to defer
+ *   flushing to the next microtask
+ */
+export function setSchedulerMode(next: SchedulerMode): void {
+  getRuntime().schedulerMode = next
+}
+
+/**
+ * Get the current scheduling mode
+ */
+export function getSchedulerMode(): SchedulerMode {
+  return getRuntime().schedulerMode
+}
+
+/**
+ * Bind an effect to the active runtime
+ * 
+ * The effect is always queued on (and run in) this runtime, even when a
+ * signal shared with another runtime is written there.
+ * 
+ * @internal Called by effects and subscriptions on creation
+ */
+export function bindEffectRuntime(subscriber: Subscriber): void {
+  effectRuntimes.set(subscriber, getRuntime())
+}
+
+/**
+ * Queue an effect for the next flush of its runtime
+ * 
+ * @internal
+ */
+export function queueEffect(subscriber: Subscriber): void {
+  const current = getRuntime()
+  const runtime = effectRuntimes.get(subscriber) ?? current
+  runtime.pendingEffects.add(subscriber)
+  
+  // Flushed when the writing runtime's batch ends
+  if (runtime !== current) {
+    let others = otherRuntimes.get(current)
+    
+    if (!others) {
+      others = new Set()
+      otherRuntimes.set(current, others)
+    }
+    
+    others.add(runtime)
+  }
+}
+
+/**
+ * Run all pending effects of a runtime
+ * 
+ * Effects queued while flushing (e.g. an effect writing a signal) are
+ * picked up by the same loop rather than running re-entrantly. An effect
+ * that throws does not stop the others: every queued effect runs, then
+ * the first unhandled error is rethrown.
+ * 
+ * In development, effects that keep re-queueing each other are reported
+ * and dropped after MAX_FLUSH_ITERATIONS rounds.
+ */
+function flushEffects(runtime: ReactiveRuntime): void {
+  if (runtime.flushing) return
+  runtime.flushing = true
+  
+  let failure: { error: unknown } | null = null
+  let iterations = 0
+  let ran = false
+  
+  try {
+    while (runtime.pendingEffects.size > 0) {
+      if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production' && ++iterations > MAX_FLUSH_ITERATIONS) {
+        reportEffectLoop(MAX_FLUSH_ITERATIONS)
+        runtime.pendingEffects.clear()
+        break
+      }
+      
+      const effects = [...runtime.pendingEffects]
+      runtime.pendingEffects.clear()
+      ran = true
+      
+      for (const effect of effects) {
+        try {
+          runSubscriber(effect)
+        } catch (error) {
+          failure ??= { error }
+        }
+      }
+    }
+  } finally {
+    runtime.flushing = false
+  }
+  
+  if (ran) {
+    for (const listener of [...flushListeners.get(runtime) ?? []]) {
+      listener()
+    }
+  }
+  
+  if (failure) {
+    throw failure.error
+  }
+}
+
+/**
+ * Call a listener after every flush that ran effects
+ * 
+ * @internal Used by the onUpdate lifecycle hook
+ * @param listener - Called once the flush has finished
+ * @returns Function removing the listener
+ */
+export function onEffectsFlushed(listener: () => void): () => void {
+  const runtime = getRuntime()
+  let listeners = flushListeners.get(runtime)
+  
+  if (!listeners) {
+    listeners = new Set()
+    flushListeners.set(runtime, listeners)
+  }
+  
+  listeners.add(listener)
+  
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Flush now or on the next microtask, depending on the mode
+ * 
+ * Sync flushes rethrow unhandled effect errors to the writer; deferred
+ * flushes have no caller, so they log them. Other runtimes that received
+ * effects are flushed afterwards, each in its own mode.
+ */
+function scheduleFlush(runtime: ReactiveRuntime): void {
+  try {
+    flushOrDefer(runtime)
+  } finally {
+    scheduleOtherRuntimes(runtime)
+  }
+}
+
+/**
+ * Schedule the flushes of the other runtimes that received effects
+ */
+function scheduleOtherRuntimes(runtime: ReactiveRuntime): void {
+  const others = otherRuntimes.get(runtime)
+  if (!others || others.size === 0) return
+  
+  const pending = [...others]
+  others.clear()
+  
+  for (const other of pending) {
+    // A runtime in the middle of a batch flushes when the batch ends
+    if (other.batchDepth === 0) {
+      runInRuntime(other, () => scheduleFlush(other))
+    }
+  }
+}
+
+/**
+ * Flush a runtime now or on the next microtask, depending on its mode
+ */
+function flushOrDefer(runtime: ReactiveRuntime): void {
+  if (runtime.pendingEffects.size === 0) return
+  
+  if (runtime.schedulerMode === 'sync') {
+    flushEffects(runtime)
+  } else if (!runtime.scheduledFlush) {
+    runtime.scheduledFlush = Promise.resolve().then(() => {
+      runtime.scheduledFlush = null
+      if (runtime.batchDepth === 0) {
+        try {
+          runInRuntime(runtime, () => flushEffects(runtime))
+        } catch (error) {
+          // Nobody awaits the flush - report instead of rejecting nextTick()
+          console.error('[Zenith] Unhandled error in effect:', error)
+        }
+      }
+    })
+  }
+}
+
+/**
+ * Start a batch - defer effect execution until batch ends
+ */
+export function startBatch(): void {
+  const runtime = getRuntime()
+  
+  if (runtime.batchDepth++ === 0) {
+    runtime.batchId++
+  }
+}
+
+/**
+ * End a batch - schedule a flush of all pending effects
+ */
+export function endBatch(): void {
+  const runtime = getRuntime()
+  runtime.batchDepth--
+  
+  if (runtime.batchDepth === 0) {
+    scheduleFlush(runtime)
+  }
+}
+
+/**
+ * Check if currently inside a batch
+ */
+export function isBatching(): boolean {
+  return getRuntime().batchDepth > 0
+}
+
+/**
+ * Get the id of the current outermost batch
+ * 
+ * Every outermost batch gets a new id, so updates made inside the same
+ * `zenBatch` share one id.
+ * 
+ * @internal Used by history to group mutations
+ */
+export function getBatchId(): number {
+  return getRuntime().batchId
+}
+
+/**
+ * Run pending effects immediately, regardless of the scheduling mode
+ * 
+ * @param fn - Optional updates to apply before flushing
+ * @returns The return value of the function
+ */
+export function flushSync<T>(fn?: () => T): T | undefined {
+  const runtime = getRuntime()
+  let result: T | undefined
+  
+  if (fn) {
+    if (runtime.batchDepth++ === 0) {
+      runtime.batchId++
+    }
+    
+    try {
+      result = fn()
+    } finally {
+      runtime.batchDepth--
+    }
+  }
+  
+  try {
+    flushEffects(runtime)
+  } finally {
+    scheduleOtherRuntimes(runtime)
+  }
+  
+  return result
+}
+
+/**
+ * Wait until pending effects have been flushed
+ * 
+ * Resolves after the scheduled microtask flush (or immediately on the next
+ * microtask when nothing is pending). Useful in tests.
+ */
+export function nextTick(): Promise<void> {
+  return getRuntime().scheduledFlush ?? Promise.resolve()
+}
@@ -9,13 +9,48 @@
  * - Subscriber: A function that should be called when a dependency changes
  * - Tracking context: The currently executing effect/memo that should collect dependencies
  * - Dependency: A reactive value that an effect/memo depends on
+ *
+ * Propagation is push-dirty / pull-recompute: a write only colors the
+ * graph (DIRTY for direct subscribers, CHECK for everything behind a
+ * memo) and queues effects. Effects are then flushed once each, and
+ * memos recompute on demand when read, so every effect runs at most once
+ * per change and never observes a half-updated graph.
+ * 
+ * Queueing and flushing of effects lives in the scheduler module.
  */
 
+import { queueEffect, startBatch, endBatch } from './scheduler'
+import { getRuntime, runInRuntime, type ReactiveRuntime } from './runtime'
+import { checkTrackedRead } from './diagnostics'
+
+// Batching is part of the tracking API surface
+export { startBatch, endBatch, isBatching } from './scheduler'
+
 /**
  * A subscriber is a function that gets called when a reactive value changes
  */
 export type Subscriber = () => void
 
+/**
+ * Context is up to date
+ */
+export const CLEAN = 0
+
+/**
+ * An upstream memo may have changed - verify sources before running
+ */
+export const CHECK = 1
+
+/**
+ * A direct dependency changed - must run
+ */
+export const DIRTY = 2
+
+/**
+ * Propagation status of a tracking context
+ */
+export type ContextStatus = typeof CLEAN | typeof CHECK | typeof DIRTY
+
 /**
  * Tracking context - represents an effect or memo that is collecting dependencies
  */
@@ -24,50 +59,65 @@ export interface TrackingContext {
   execute: Subscriber
   /** Set of dependency subscriber sets this context is registered with */
   dependencies: Set<Set<Subscriber>>
+  /** Propagation status (managed by the scheduler, CLEAN when omitted) */
+  status?: ContextStatus
+  /**
+   * Subscribers of the value this context computes (memos only).
+   * Contexts that own a subscriber set are pulled when read instead of
+   * being queued, and `execute` recomputes their value.
+   */
+  subscribers?: Set<Subscriber>
+  /**
+   * Called once `subscribers` has stayed empty after losing its last
+   * subscriber or computing without one (memos only), so the context can
+   * release its sources
+   */
+  unobserved?: () => void
 }
 
-/**
- * Stack of currently executing tracking contexts
- * When an effect runs, it pushes itself onto this stack.
- * When a signal is read, it registers the top of the stack as a subscriber.
+/*
+ * The stack of currently executing tracking contexts lives on the active
+ * runtime. When an effect runs, it pushes itself onto the stack. When a
+ * signal is read, it registers the top of the stack as a subscriber.
+ * Untracked sections push null, so effects created inside them still track.
  */
-const trackingStack: TrackingContext[] = []
 
 /**
- * Flag to disable tracking (used by zenUntrack)
+ * Contexts registered as subscribers, keyed by their execute function
  */
-let trackingDisabled = false
+const subscriberContexts = new WeakMap<Subscriber, TrackingContext>()
 
 /**
- * Batch depth counter - when > 0, effect execution is deferred
+ * Computed contexts (memos), keyed by the subscriber set they own
  */
-let batchDepth = 0
+const computedContexts = new WeakMap<Set<Subscriber>, TrackingContext>()
 
 /**
- * Queue of effects to run after batch completes
+ * Computed contexts that lost their last subscriber, with the runtime
+ * they were released in
  */
-const pendingEffects: Set<Subscriber> = new Set()
+const unobservedContexts = new Map<TrackingContext, ReactiveRuntime>()
 
 /**
  * Get the current tracking context (if any)
  */
 export function getCurrentContext(): TrackingContext | undefined {
-  if (trackingDisabled) return undefined
-  return trackingStack[trackingStack.length - 1]
+  const { trackingStack } = getRuntime()
+  return trackingStack[trackingStack.length - 1] ?? undefined
 }
 
 /**
  * Push a new tracking context onto the stack
  */
 export function pushContext(context: TrackingContext): void {
-  trackingStack.push(context)
+  getRuntime().trackingStack.push(context)
 }
 
 /**
  * Pop the current tracking context from the stack
  */
 export function popContext(): TrackingContext | undefined {
-  return trackingStack.pop()
+  return getRuntime().trackingStack.pop() ?? undefined
 }
 
 /**
@@ -76,92 +126,208 @@ export function popContext(): TrackingContext | undefined {
  * @param subscribers - The subscriber set of the reactive value being read
  */
 export function trackDependency(subscribers: Set<Subscriber>): void {
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') checkTrackedRead(subscribers)
+  
   const context = getCurrentContext()
   
   if (context) {
     // Register this effect as a subscriber to the signal
     subscribers.add(context.execute)
+    subscriberContexts.set(context.execute, context)
     // Track that this effect depends on this signal
     context.dependencies.add(subscribers)
   }
 }
 
+/**
+ * Register a computed context (memo) by the subscriber set it owns
+ * 
+ * @internal Called by memos on creation
+ */
+export function registerComputed(context: TrackingContext): void {
+  if (context.subscribers) {
+    computedContexts.set(context.subscribers, context)
+  }
+}
+
 /**
  * Notify subscribers that a reactive value has changed
  * 
+ * Direct subscribers are marked DIRTY, everything downstream of a memo is
+ * marked CHECK, and effects are flushed once the outermost batch ends.
+ * 
  * @param subscribers - The subscriber set to notify
  */
 export function notifySubscribers(subscribers: Set<Subscriber>): void {
-  // Copy subscribers to avoid issues if the set is modified during iteration
-  const toNotify = [...subscribers]
+  startBatch()
   
-  for (const subscriber of toNotify) {
-    if (batchDepth > 0) {
-      // Batching - defer effect execution
-      pendingEffects.add(subscriber)
-    } else {
-      // Execute immediately
-      subscriber()
+  try {
+    // Copy subscribers to avoid issues if the set is modified during iteration
+    for (const subscriber of [...subscribers]) {
+      markSubscriber(subscriber, DIRTY)
     }
+  } finally {
+    endBatch()
   }
 }
 
 /**
- * Clean up a tracking context - remove it from all dependency sets
+ * Raise a subscriber to the given status and schedule it
  * 
- * @param context - The context to clean up
+ * Memos propagate CHECK to their own subscribers the first time they leave
+ * CLEAN; everything else is queued to run when the batch flushes.
  */
-export function cleanupContext(context: TrackingContext): void {
-  for (const deps of context.dependencies) {
-    deps.delete(context.execute)
+function markSubscriber(subscriber: Subscriber, status: ContextStatus): void {
+  const context = subscriberContexts.get(subscriber)
+  
+  if (!context) {
+    // Plain subscriber (e.g. signal.subscribe) - always queue
+    queueEffect(subscriber)
+    return
+  }
+  
+  const previous = context.status ?? CLEAN
+  if (previous >= status) return
+  
+  context.status = status
+  if (previous !== CLEAN) return
+  
+  if (context.subscribers) {
+    for (const downstream of [...context.subscribers]) {
+      markSubscriber(downstream, CHECK)
+    }
+  } else {
+    queueEffect(subscriber)
   }
-  context.dependencies.clear()
 }
 
 /**
- * Run a function without tracking dependencies
+ * Mark the subscribers of a recomputed memo as DIRTY
  * 
- * @param fn - The function to run
- * @returns The return value of the function
+ * They are already CHECK (and queued, for effects) from the initial
+ * propagation, so this only upgrades their status.
+ * 
+ * @param subscribers - The subscriber set of the memo that changed
  */
-export function runUntracked<T>(fn: () => T): T {
-  const wasDisabled = trackingDisabled
-  trackingDisabled = true
+export function markSubscribersDirty(subscribers: Set<Subscriber>): void {
+  startBatch()
+  
   try {
-    return fn()
+    for (const subscriber of [...subscribers]) {
+      markSubscriber(subscriber, DIRTY)
+    }
   } finally {
-    trackingDisabled = wasDisabled
+    endBatch()
   }
 }
 
 /**
- * Start a batch - defer effect execution until batch ends
+ * Bring a context up to date
+ * 
+ * A CHECK context first pulls its upstream memos; if any of them changed
+ * the context is upgraded to DIRTY. A DIRTY context is executed.
+ * 
+ * @param context - The context to update
  */
-export function startBatch(): void {
-  batchDepth++
+export function updateContext(context: TrackingContext): void {
+  if (context.status === CHECK) {
+    for (const dependency of context.dependencies) {
+      const source = computedContexts.get(dependency)
+      
+      if (source) {
+        updateContext(source)
+        // Stop pulling as soon as a source change made this context DIRTY
+        if (context.status !== CHECK) break
+      }
+    }
+  }
+  
+  if (context.status === DIRTY) {
+    context.status = CLEAN
+    context.execute()
+    
+    // Computed for an untracked read - release the sources again unless
+    // a reader subscribes
+    if (context.unobserved && context.subscribers?.size === 0) {
+      scheduleUnobserved(context)
+    }
+  } else {
+    context.status = CLEAN
+  }
 }
 
 /**
- * End a batch - run all pending effects
+ * Run a queued subscriber
+ * 
+ * @internal Called by the scheduler when flushing
  */
-export function endBatch(): void {
-  batchDepth--
+export function runSubscriber(subscriber: Subscriber): void {
+  const context = subscriberContexts.get(subscriber)
   
-  if (batchDepth === 0 && pendingEffects.size > 0) {
-    // Run all pending effects
-    const effects = [...pendingEffects]
-    pendingEffects.clear()
+  if (context) {
+    updateContext(context)
+  } else {
+    subscriber()
+  }
+}
+
+/**
+ * Clean up a tracking context - remove it from all dependency sets
+ * 
+ * @param context - The context to clean up
+ */
+export function cleanupContext(context: TrackingContext): void {
+  for (const deps of context.dependencies) {
+    deps.delete(context.execute)
     
-    for (const effect of effects) {
-      effect()
+    if (deps.size === 0) {
+      const source = computedContexts.get(deps)
+      if (source?.unobserved) scheduleUnobserved(source)
     }
   }
+  context.dependencies.clear()
 }
 
 /**
- * Check if currently inside a batch
+ * Release a computed context that is without subscribers
+ * 
+ * Deferred to a microtask: effects and memos clean up their dependencies
+ * before re-running, and the sources they read again must stay attached.
  */
-export function isBatching(): boolean {
-  return batchDepth > 0
+function scheduleUnobserved(context: TrackingContext): void {
+  if (unobservedContexts.size === 0) {
+    queueMicrotask(releaseUnobserved)
+  }
+  
+  unobservedContexts.set(context, getRuntime())
 }
 
+/**
+ * Release the computed contexts that are still without subscribers
+ */
+function releaseUnobserved(): void {
+  const pending = [...unobservedContexts]
+  unobservedContexts.clear()
+  
+  for (const [context, runtime] of pending) {
+    if (context.subscribers?.size === 0) {
+      runInRuntime(runtime, () => context.unobserved?.())
+    }
+  }
+}
+
+/**
+ * Run a function without tracking dependencies
+ * 
+ * @param fn - The function to run
+ * @returns The return value of the function
+ */
+export function runUntracked<T>(fn: () => T): T {
+  const { trackingStack } = getRuntime()
+  trackingStack.push(null)
+  try {
+    return fn()
+  } finally {
+    trackingStack.pop()
+  }
+}
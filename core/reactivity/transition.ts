@@ -0,0 +1,275 @@
+/**
+ * Zenith Transitions - Non-Urgent Updates
+ * 
+ * A transition marks updates as non-urgent. Signal writes made inside
+ * `startTransition` are not applied right away: they go to a forked
+ * pending state and are committed together, in one batch, once the
+ * browser is idle. Urgent updates (typing, clicks) keep running in the
+ * meantime, and `isPending()` reports that a transition is waiting.
+ * 
+ * `deferred` is the read-side counterpart: a value that follows its
+ * source only when the browser is idle (or after `timeoutMs` at the
+ * latest), so heavy work derived from it lags behind urgent updates.
+ * 
+ * @example
+ * ```ts
+ * const query = zenSignal('')
+ * const filter = zenSignal('')
+ * const visible = zenMemo(() => rows.filter(row => row.name.includes(filter())))
+ * 
+ * input.oninput = () => {
+ *   query(input.value)                               // Urgent
+ *   startTransition(() => filter(input.value))       // Committed when idle
+ * }
+ * 
+ * zenEffect(() => spinner.hidden = !isPending())
+ * 
+ * // Or lag a value behind its source
+ * const lagging = deferred(query, { timeoutMs: 200 })
+ * ```
+ * 
+ * Only signal writes are forked. Inside the transition function, untracked
+ * reads of a forked signal return its pending value; memos and effects
+ * keep seeing the committed value until the commit. Mutations of state
+ * objects inside the transition are applied immediately.
+ */
+
+import { zenSignal, type Signal, type ReadonlySignal } from './zen-signal'
+import { zenEffect } from './zen-effect'
+import { zenUntrack } from './zen-untrack'
+import { zenBatch } from './zen-batch'
+import { getCurrentContext, startBatch, endBatch } from './tracking'
+import { getOwner, onCleanup, removeCleanup } from './owner'
+import { getRuntime, runInRuntime, type ReactiveRuntime } from './runtime'
+
+/**
+ * A pending transition - forked signal writes waiting to be committed
+ * 
+ * @internal
+ */
+export interface Transition {
+  /** Forked values by signal, with the write that commits each of them */
+  pending: Map<object, { value: unknown, commit: () => void }>
+  /** Resolves once the transition has been committed (or discarded) */
+  done: Promise<void>
+  /** Resolve `done` */
+  resolve: () => void
+}
+
+/**
+ * Options for deferred values
+ */
+export interface DeferredOptions {
+  /** Follow the source after this many milliseconds even if never idle */
+  timeoutMs?: number
+}
+
+/**
+ * Number of transition functions currently running (fast path for
+ * signal reads and writes outside of transitions)
+ */
+let runningTransitions = 0
+
+/**
+ * isPending signals, one per reactive runtime
+ */
+const pendingSignals = new WeakMap<ReactiveRuntime, Signal<boolean>>()
+
+/**
+ * Get the isPending signal of a runtime
+ */
+function getPendingSignal(runtime: ReactiveRuntime): Signal<boolean> {
+  let signal = pendingSignals.get(runtime)
+  
+  if (!signal) {
+    signal = zenSignal(false)
+    pendingSignals.set(runtime, signal)
+  }
+  
+  return signal
+}
+
+/**
+ * Run a callback when the browser is idle
+ * 
+ * Falls back to a timer where requestIdleCallback is unavailable (SSR,
+ * Safari). The callback runs in the runtime that scheduled it.
+ * 
+ * @returns Cancel the callback
+ */
+function scheduleIdle(callback: () => void, timeoutMs?: number): () => void {
+  const runtime = getRuntime()
+  const run = () => runInRuntime(runtime, callback)
+  
+  if (typeof requestIdleCallback === 'function') {
+    const handle = requestIdleCallback(run, timeoutMs === undefined ? undefined : { timeout: timeoutMs })
+    return () => cancelIdleCallback(handle)
+  }
+  
+  const handle = setTimeout(run, 0)
+  return () => clearTimeout(handle)
+}
+
+/**
+ * Run updates as a non-urgent transition
+ * 
+ * Signal writes inside the function are forked and committed together
+ * when the browser is idle. Transitions started before the commit join
+ * the pending one. The pending writes are dropped if the owner scope that
+ * started the transition is disposed before the commit.
+ * 
+ * @param fn - The updates to run
+ * @returns Resolves once the updates have been committed (or dropped)
+ */
+export function startTransition(fn: () => void): Promise<void> {
+  const runtime = getRuntime()
+  let transition = runtime.transition
+  
+  if (!transition) {
+    let resolve!: () => void
+    const done = new Promise<void>(r => { resolve = r })
+    const created: Transition = { pending: new Map(), done, resolve }
+    transition = created
+    runtime.transition = created
+    
+    getPendingSignal(runtime)(true)
+    
+    const owner = getOwner()
+    const cancel = scheduleIdle(() => {
+      if (owner) removeCleanup(owner, discard)
+      commitTransition(runtime, created)
+    })
+    
+    // Discarded when the scope that started it is disposed first
+    const discard = onCleanup(() => {
+      cancel()
+      discardTransition(runtime, created)
+    })
+  }
+  
+  // Effects triggered by non-forked updates run after the function,
+  // so their signal writes are not forked by accident
+  startBatch()
+  runningTransitions++
+  
+  try {
+    fn()
+  } finally {
+    runningTransitions--
+    endBatch()
+  }
+  
+  return transition.done
+}
+
+/**
+ * Apply the forked writes of a transition
+ */
+function commitTransition(runtime: ReactiveRuntime, transition: Transition): void {
+  if (runtime.transition !== transition) return
+  runtime.transition = null
+  
+  try {
+    zenBatch(() => {
+      for (const { commit } of transition.pending.values()) {
+        commit()
+      }
+      getPendingSignal(runtime)(false)
+    })
+  } finally {
+    transition.resolve()
+  }
+}
+
+/**
+ * Drop the forked writes of a transition that was not committed yet
+ */
+function discardTransition(runtime: ReactiveRuntime, transition: Transition): void {
+  if (runtime.transition !== transition) return
+  runtime.transition = null
+  
+  try {
+    getPendingSignal(runtime)(false)
+  } finally {
+    transition.resolve()
+  }
+}
+
+/**
+ * Whether a transition is waiting to be committed (tracks dependency)
+ */
+export function isPending(): boolean {
+  return getPendingSignal(getRuntime())()
+}
+
+/**
+ * Fork a signal write if a transition function is running
+ * 
+ * @internal Called by signals before writing
+ * @param source - Identity of the signal
+ * @param value - The value being written
+ * @param commit - Applies the write on commit
+ * @returns Whether the write was forked (and must not be applied now)
+ */
+export function forkWrite(source: object, value: unknown, commit: () => void): boolean {
+  if (runningTransitions === 0) return false
+  
+  const transition = getRuntime().transition
+  if (!transition) return false
+  
+  transition.pending.set(source, { value, commit })
+  return true
+}
+
+/**
+ * Read the forked value of a signal inside a running transition function
+ * 
+ * Tracked reads (memos, effects) always see the committed value, so no
+ * computation caches a value that has not been committed.
+ * 
+ * @internal Called by signals when reading
+ * @param source - Identity of the signal
+ * @param committed - The committed value
+ */
+export function readFork<T>(source: object, committed: T): T {
+  if (runningTransitions === 0 || getCurrentContext()) return committed
+  
+  const fork = getRuntime().transition?.pending.get(source)
+  return fork ? fork.value as T : committed
+}
+
+/**
+ * Create a value that follows its source when the browser is idle
+ * 
+ * @param source - The value to defer (signal, memo or getter)
+ * @param options - Maximum lag
+ * @returns A read-only signal of the deferred value
+ */
+export function deferred<T>(source: () => T, options: DeferredOptions = {}): ReadonlySignal<T> {
+  const value = zenSignal(zenUntrack(source))
+  let latest: T
+  let cancel: (() => void) | null = null
+  let initialized = false
+  
+  zenEffect(() => {
+    latest = source()
+    
+    // The first run only subscribes - the value is already current
+    if (!initialized) {
+      initialized = true
+      return
+    }
+    
+    cancel ??= scheduleIdle(() => {
+      cancel = null
+      value(latest)
+    }, options.timeoutMs)
+  })
+  
+  onCleanup(() => {
+    cancel?.()
+    cancel = null
+  })
+  
+  return value.asReadonly()
+}
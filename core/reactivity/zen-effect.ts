@@ -11,6 +11,9 @@
  * - Re-runs when dependencies change
  * - Supports cleanup functions
  * - Can be manually disposed
+ * - Owns effects created inside it (disposed before each re-run)
+ * - Disposed together with the owner scope it was created in
+ * - Errors are passed to the nearest `onError`/`catchError` handler
  * 
  * @example
  * ```ts
@@ -29,6 +32,9 @@
  * count(1) // Logs: "Cleanup", then "Count: 1"
  * 
  * dispose() // Cleanup and stop watching
+ * 
+ * // Name the effect for devtools
+ * zenEffect(() => document.title = `${count()} items`, { name: 'title' })
  * ```
  */
 
@@ -38,6 +44,20 @@ import {
   cleanupContext,
   type TrackingContext
 } from './tracking'
+import { bindEffectRuntime } from './scheduler'
+import {
+  getOwner,
+  createOwner,
+  runWithOwner,
+  cleanOwner,
+  disposeOwner,
+  onCleanup,
+  handleError,
+  removeCleanup,
+  type Owner
+} from './owner'
+import { registerNode, recordRun, recordDispose, now } from './devtools'
+import { checkEffectCreation, runEffectCleanup } from './diagnostics'
 
 /**
  * Effect function type - can optionally return a cleanup function
@@ -49,6 +69,14 @@ export type EffectFn = () => void | (() => void)
  */
 export type DisposeFn = () => void
 
+/**
+ * Effect options
+ */
+export interface EffectOptions {
+  /** Debug name shown in devtools (development only) */
+  name?: string
+}
+
 /**
  * Effect state
  */
@@ -61,15 +89,18 @@ interface EffectState {
   context: TrackingContext
   /** Whether the effect has been disposed */
   disposed: boolean
+  /** Scope owning everything created while the effect runs */
+  owner: Owner
 }
 
 /**
  * Create an auto-tracked side effect
  * 
  * @param fn - The effect function to run
+ * @param options - Optional debug configuration
  * @returns A dispose function to stop the effect
  */
-export function zenEffect(fn: EffectFn): DisposeFn {
+export function zenEffect(fn: EffectFn, options: EffectOptions = {}): DisposeFn {
   const state: EffectState = {
     fn,
     cleanup: null,
@@ -77,14 +108,32 @@ export function zenEffect(fn: EffectFn): DisposeFn {
       execute: () => runEffect(state),
       dependencies: new Set()
     },
-    disposed: false
+    disposed: false,
+    owner: createOwner()
+  }
+  
+  // Dispose together with the enclosing scope
+  const parent = getOwner()
+  const dispose = onCleanup(() => disposeEffect(state))
+  
+  const disposeFn: DisposeFn = () => {
+    if (parent) removeCleanup(parent, dispose)
+    disposeEffect(state)
+  }
+  
+  // Queued on the runtime it was created in
+  bindEffectRuntime(state.context.execute)
+  
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+    registerNode('effect', options.name, { context: state.context, handle: disposeFn })
+    checkEffectCreation(state.context, parent)
   }
   
   // Run the effect immediately
   runEffect(state)
   
   // Return dispose function
-  return () => disposeEffect(state)
+  return disposeFn
 }
 
 /**
@@ -93,29 +142,49 @@ export function zenEffect(fn: EffectFn): DisposeFn {
 function runEffect(state: EffectState): void {
   if (state.disposed) return
   
-  // Run cleanup from previous execution
-  if (state.cleanup) {
-    state.cleanup()
-    state.cleanup = null
+  try {
+    // Run cleanup from previous execution
+    if (state.cleanup) {
+      const cleanup = state.cleanup
+      state.cleanup = null
+      
+      if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+        runEffectCleanup(state.context, cleanup)
+      } else {
+        cleanup()
+      }
+    }
+  } catch (error) {
+    handleError(error, state.owner)
   }
   
+  // Dispose effects and cleanups created by the previous execution
+  cleanOwner(state.owner)
+  
   // Clean up old dependencies
   cleanupContext(state.context)
   
+  const startedAt = typeof process !== 'undefined' && process.env.NODE_ENV !== 'production' ? now() : 0
+  
   // Push this effect onto the tracking stack
   pushContext(state.context)
   
   try {
-    // Run the effect function
-    const result = state.fn()
+    // Run the effect function inside its own scope
+    const result = runWithOwner(state.owner, state.fn)
     
     // Store cleanup if returned
     if (typeof result === 'function') {
       state.cleanup = result
     }
+  } catch (error) {
+    // Dependencies read before the throw stay tracked, so the effect
+    // re-runs once they change
+    handleError(error, state.owner)
   } finally {
     // Pop from tracking stack
     popContext()
+    if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') recordRun(state.context, startedAt)
   }
 }
 
@@ -129,11 +198,21 @@ function disposeEffect(state: EffectState): void {
   
   // Run cleanup
   if (state.cleanup) {
-    state.cleanup()
+    const cleanup = state.cleanup
     state.cleanup = null
+    
+    if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+      runEffectCleanup(state.context, cleanup)
+    } else {
+      cleanup()
+    }
   }
   
+  // Dispose everything the effect created
+  disposeOwner(state.owner)
+  
   // Remove from all dependency sets
   cleanupContext(state.context)
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') recordDispose(state.context)
 }
 
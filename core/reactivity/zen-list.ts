@@ -0,0 +1,246 @@
+/**
+ * Zenith List - Keyed and Indexed List Mapping
+ * 
+ * Maps a reactive list to derived items (e.g. DOM rows) without redoing
+ * the work for items that did not change. Every mapped item gets its own
+ * owner scope, so effects and cleanups created by the map function live
+ * exactly as long as the item.
+ * 
+ * - `mapArray` caches by key: the map function only runs for new keys,
+ *   moved items keep their result and get a reactive `index()`
+ * - `indexArray` caches by position: the map function runs once per index
+ *   and receives the item as a signal that updates in place
+ * 
+ * Scopes of removed items are disposed; all scopes are disposed with the
+ * owner scope the list was created in.
+ * 
+ * @example
+ * ```ts
+ * const users = zenSignal([{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }])
+ * 
+ * const rows = mapArray(users, (user, index) => {
+ *   const row = document.createElement('tr')
+ *   zenEffect(() => { row.dataset.index = String(index()) })
+ *   onCleanup(() => row.remove())
+ *   return row
+ * }, { key: user => user.id })
+ * 
+ * users([users()[1]!]) // Ann's row is removed, Bob's row is reused
+ * 
+ * const cells = indexArray(values, (value, index) => {
+ *   const cell = document.createElement('td')
+ *   zenEffect(() => { cell.textContent = String(value()) })
+ *   return cell
+ * })
+ * ```
+ */
+
+import { zenSignal, type Signal } from './zen-signal'
+import { zenMemo, type Memo } from './zen-memo'
+import { zenUntrack } from './zen-untrack'
+import {
+  createOwner,
+  getOwner,
+  runWithOwner,
+  disposeOwner,
+  onCleanup,
+  type Owner
+} from './owner'
+
+/**
+ * Source list - a signal, memo or getter, or a reactive state array
+ */
+export type ListSource<T> = (() => readonly T[] | null | undefined | false) | readonly T[]
+
+/**
+ * mapArray options
+ */
+export interface MapArrayOptions<T> {
+  /** Identity of an item (defaults to the item itself) */
+  key?: (item: T, index: number) => unknown
+  /** Debug name of the result memo shown in devtools (development only) */
+  name?: string
+}
+
+/**
+ * indexArray options
+ */
+export interface IndexArrayOptions {
+  /** Debug name of the result memo shown in devtools (development only) */
+  name?: string
+}
+
+/**
+ * A mapped item and the scope that owns it
+ */
+interface MappedEntry<U> {
+  value: U
+  owner: Owner
+}
+
+/**
+ * Keyed entry - position is reactive, the item is fixed
+ */
+interface KeyedEntry<U> extends MappedEntry<U> {
+  index: Signal<number>
+}
+
+/**
+ * Indexed entry - position is fixed, the item is reactive
+ */
+interface IndexedEntry<T, U> extends MappedEntry<U> {
+  item: Signal<T>
+}
+
+/**
+ * Map a reactive list by key
+ * 
+ * The map function runs untracked, once per new key, inside a scope of
+ * its own. With a `key` option, an item replaced by another with the same
+ * key keeps its mapped value; the map function receives the item it was
+ * first created with.
+ * 
+ * @param list - The source list
+ * @param mapFn - Maps an item; receives its reactive index
+ * @param options - Key function and debug name
+ * @returns A memo of the mapped items
+ */
+export function mapArray<T, U>(
+  list: ListSource<T>,
+  mapFn: (item: T, index: () => number) => U,
+  options: MapArrayOptions<T> = {}
+): Memo<U[]> {
+  const parent = getOwner()
+  const keyOf = options.key ?? ((item: T) => item)
+  
+  /** Entries by key; duplicate keys queue up in list order */
+  let entries = new Map<unknown, KeyedEntry<U>[]>()
+  
+  onCleanup(() => {
+    entries.forEach(group => group.forEach(entry => disposeOwner(entry.owner)))
+    entries = new Map()
+  })
+  
+  return zenMemo(() => {
+    const items = readList(list)
+    
+    return zenUntrack(() => {
+      const next = new Map<unknown, KeyedEntry<U>[]>()
+      const result: U[] = []
+      
+      try {
+        items.forEach((item, i) => {
+          const key = keyOf(item, i)
+          let entry = entries.get(key)?.shift()
+          
+          if (entry) {
+            entry.index(i)
+          } else {
+            const index = zenSignal(i)
+            entry = { ...mapEntry(parent, () => mapFn(item, () => index())), index }
+          }
+          
+          const group = next.get(key)
+          if (group) {
+            group.push(entry)
+          } else {
+            next.set(key, [entry])
+          }
+          
+          result.push(entry.value)
+        })
+      } finally {
+        // Dispose the scopes of removed items (and of the rest if mapping threw)
+        entries.forEach(group => group.forEach(entry => disposeOwner(entry.owner)))
+        entries = next
+      }
+      
+      return result
+    })
+  }, { equals: sameItems, name: options.name })
+}
+
+/**
+ * Map a reactive list by index
+ * 
+ * The map function runs untracked, once per index, inside a scope of its
+ * own. When the item at an index changes, its `item` signal is updated
+ * instead of mapping again.
+ * 
+ * @param list - The source list
+ * @param mapFn - Maps the item signal at an index
+ * @param options - Debug name
+ * @returns A memo of the mapped items
+ */
+export function indexArray<T, U>(
+  list: ListSource<T>,
+  mapFn: (item: () => T, index: number) => U,
+  options: IndexArrayOptions = {}
+): Memo<U[]> {
+  const parent = getOwner()
+  let entries: IndexedEntry<T, U>[] = []
+  
+  onCleanup(() => {
+    entries.forEach(entry => disposeOwner(entry.owner))
+    entries = []
+  })
+  
+  return zenMemo(() => {
+    const items = readList(list)
+    
+    return zenUntrack(() => {
+      // Dispose the scopes of indices past the end
+      for (let i = items.length; i < entries.length; i++) {
+        disposeOwner(entries[i]!.owner)
+      }
+      entries = entries.slice(0, items.length)
+      
+      items.forEach((value, i) => {
+        const existing = entries[i]
+        
+        if (existing) {
+          existing.item(value)
+        } else {
+          const item = zenSignal(value)
+          entries[i] = { ...mapEntry(parent, () => mapFn(() => item(), i)), item }
+        }
+      })
+      
+      return entries.map(entry => entry.value)
+    })
+  }, { equals: sameItems, name: options.name })
+}
+
+/**
+ * Whether two mapped arrays hold the same values in the same order
+ * (e.g. only the item signals of an indexArray were updated)
+ */
+function sameItems<U>(prev: U[], next: U[]): boolean {
+  return prev.length === next.length && prev.every((value, i) => Object.is(value, next[i]))
+}
+
+/**
+ * Read a source list into a plain array
+ * 
+ * Copies inside the tracked section, so state arrays track every index.
+ */
+function readList<T>(list: ListSource<T>): T[] {
+  const items = typeof list === 'function' ? list() : list
+  return items ? [...items] : []
+}
+
+/**
+ * Run a map function inside a new scope for the item
+ * 
+ * The scope is disposed again if the map function throws.
+ */
+function mapEntry<U>(parent: Owner | null, fn: () => U): MappedEntry<U> {
+  const owner = createOwner(parent)
+  
+  try {
+    return { value: runWithOwner(owner, fn), owner }
+  } catch (error) {
+    disposeOwner(owner)
+    throw error
+  }
+}
@@ -9,6 +9,12 @@
  * - Automatic dependency tracking
  * - Cached value until dependencies change
  * - Read-only (no setter)
+ * - Stops propagation when the recomputed value is equal to the previous one
+ * - Glitch-free: downstream effects run once, after the memo is up to date
+ * - Disposed together with the owner scope it was created in, or via dispose()
+ * - Releases its sources once nothing subscribes to it anymore (or after
+ *   an untracked read), and subscribes again lazily on the next read
+ * - Errors are cached: every read rethrows until a dependency changes
  * 
  * @example
  * ```ts
@@ -23,6 +29,14 @@
  * firstName('Jane')
  * console.log(fullName()) // "Jane Doe" (recomputed)
  * console.log(fullName()) // "Jane Doe" (cached, no recomputation)
+ * 
+ * // Downstream effects only re-run when the parity actually flips
+ * const isEven = zenMemo(() => count() % 2 === 0)
+ * 
+ * // Structural equality for derived arrays
+ * const ids = zenMemo(() => rows().map(r => r.id), {
+ *   equals: (a, b) => a.length === b.length && a.every((v, i) => v === b[i])
+ * })
  * ```
  */
 
@@ -31,9 +45,27 @@ import {
   popContext,
   cleanupContext,
   trackDependency,
+  updateContext,
+  markSubscribersDirty,
+  registerComputed,
+  CLEAN,
+  DIRTY,
   type TrackingContext,
   type Subscriber
 } from './tracking'
+import {
+  getOwner,
+  createOwner,
+  runWithOwner,
+  cleanOwner,
+  disposeOwner,
+  onCleanup,
+  removeCleanup,
+  type Owner
+} from './owner'
+import type { EqualityFn } from './zen-signal'
+import { registerNode, recordRun, recordDispose, now } from './devtools'
+import { attachInterop } from './interop'
 
 /**
  * Memo interface - callable getter
@@ -43,6 +75,23 @@ export interface Memo<T> {
   (): T
   /** Peek at cached value without tracking (may be stale) */
   peek(): T
+  /** Stop tracking sources and keep the last value */
+  dispose(): void
+  /** Iterate the current value and every change (also `Symbol.observable`) */
+  [Symbol.asyncIterator](): AsyncIterableIterator<T>
+}
+
+/**
+ * Memo options
+ */
+export interface MemoOptions<T> {
+  /**
+   * Equality check between the previous and recomputed value (defaults to
+   * Object.is). Pass `false` to notify downstream on every recomputation.
+   */
+  equals?: EqualityFn<T> | false
+  /** Debug name shown in devtools (development only) */
+  name?: string
 }
 
 /**
@@ -53,54 +102,88 @@ interface MemoState<T> {
   fn: () => T
   /** Cached value */
   value: T | undefined
-  /** Whether the cached value is valid */
-  dirty: boolean
-  /** Tracking context for dependency collection */
+  /** Tracking context for dependency collection (its status marks staleness) */
   context: TrackingContext
   /** Subscribers to this memo */
   subscribers: Set<Subscriber>
   /** Whether this is the first computation */
   initialized: boolean
+  /** Scope owning everything created during computation */
+  owner: Owner
+  /** Whether the memo has been disposed (keeps its last value) */
+  disposed: boolean
+  /** Equality check deciding whether a recomputation notifies */
+  equals: EqualityFn<T> | false
+  /** Error thrown by the last computation (rethrown on read) */
+  error: { value: unknown } | null
 }
 
 /**
  * Create a memoized computed value
  * 
  * @param fn - The computation function
+ * @param options - Optional equality configuration
  * @returns A memo that can be read to get the computed value
  */
-export function zenMemo<T>(fn: () => T): Memo<T> {
+export function zenMemo<T>(fn: () => T, options: MemoOptions<T> = {}): Memo<T> {
+  const subscribers: Set<Subscriber> = new Set()
   const state: MemoState<T> = {
     fn,
     value: undefined,
-    dirty: true,
     context: {
-      execute: () => markDirty(state),
-      dependencies: new Set()
+      execute: () => computeMemo(state),
+      dependencies: new Set(),
+      status: DIRTY,
+      subscribers,
+      unobserved: () => releaseMemo(state)
     },
-    subscribers: new Set(),
-    initialized: false
+    subscribers,
+    initialized: false,
+    owner: createOwner(),
+    disposed: false,
+    equals: options.equals ?? Object.is,
+    error: null
   }
   
+  registerComputed(state.context)
+  
+  // Dispose together with the enclosing scope
+  const parent = getOwner()
+  const dispose = onCleanup(() => disposeMemo(state))
+  
   function memo(): T {
+    // Bring the value up to date before subscribing, so the recompute
+    // does not re-notify the reader that is pulling it
+    if (state.context.status !== CLEAN && !state.disposed) {
+      updateContext(state.context)
+    }
+    
     // Track that something is reading this memo
     trackDependency(state.subscribers)
     
-    // Recompute if dirty
-    if (state.dirty) {
-      computeMemo(state)
-    }
-    
-    return state.value as T
+    return readValue(state)
   }
   
   // Add peek method
   ;(memo as Memo<T>).peek = function(): T {
     // Return cached value without tracking or recomputing
-    if (state.dirty && !state.initialized) {
-      computeMemo(state)
+    if (!state.initialized && !state.disposed) {
+      updateContext(state.context)
     }
-    return state.value as T
+    return readValue(state)
+  }
+  
+  // Add dispose method
+  ;(memo as Memo<T>).dispose = function(): void {
+    if (parent) removeCleanup(parent, dispose)
+    disposeMemo(state)
+  }
+  
+  // Add Symbol.observable / Symbol.asyncIterator - RxJS and for await
+  attachInterop(memo)
+  
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+    registerNode('memo', options.name, { source: subscribers, context: state.context, handle: memo })
   }
   
   return memo as Memo<T>
@@ -108,39 +191,85 @@ export function zenMemo<T>(fn: () => T): Memo<T> {
 
 /**
  * Compute the memo value, tracking dependencies
+ * 
+ * Called by the scheduler when the memo is DIRTY and being pulled.
  */
 function computeMemo<T>(state: MemoState<T>): void {
+  // Dispose anything created by the previous computation
+  cleanOwner(state.owner)
+  
   // Clean up old dependencies
   cleanupContext(state.context)
   
+  const oldValue = state.value
+  const hadError = state.error !== null
+  const wasInitialized = state.initialized
+  const startedAt = typeof process !== 'undefined' && process.env.NODE_ENV !== 'production' ? now() : 0
+  
   // Push this memo onto the tracking stack
   pushContext(state.context)
   
   try {
-    // Compute new value
-    state.value = state.fn()
-    state.dirty = false
-    state.initialized = true
+    // Compute new value inside the memo's own scope
+    state.value = runWithOwner(state.owner, state.fn)
+    state.error = null
+  } catch (error) {
+    // Cache the error; dependencies read before the throw stay tracked,
+    // so the memo recomputes once they change
+    state.error = { value: error }
   } finally {
+    state.initialized = true
     // Pop from tracking stack
     popContext()
+    if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') recordRun(state.context, startedAt)
+  }
+  
+  // Downstream readers were marked CHECK; only confirm they need to run
+  // if the value (or error state) actually changed
+  if (
+    !wasInitialized ||
+    hadError ||
+    state.error !== null ||
+    state.equals === false ||
+    !state.equals(oldValue as T, state.value as T)
+  ) {
+    markSubscribersDirty(state.subscribers)
   }
 }
 
 /**
- * Mark the memo as dirty (needs recomputation)
- * Called when a dependency changes
+ * Return the cached value, or rethrow the cached error
  */
-function markDirty<T>(state: MemoState<T>): void {
-  if (!state.dirty) {
-    state.dirty = true
-    
-    // Notify any effects/memos that depend on this memo
-    // Copy to avoid issues during iteration
-    const subscribers = [...state.subscribers]
-    for (const subscriber of subscribers) {
-      subscriber()
-    }
+function readValue<T>(state: MemoState<T>): T {
+  if (state.error) {
+    throw state.error.value
   }
+  
+  return state.value as T
+}
+
+/**
+ * Release the sources of a memo that lost its last subscriber
+ * 
+ * The last value is kept for peek(); the next read recomputes the memo
+ * and subscribes to its sources again.
+ */
+function releaseMemo<T>(state: MemoState<T>): void {
+  if (state.disposed) return
+  
+  cleanOwner(state.owner)
+  cleanupContext(state.context)
+  state.context.status = DIRTY
 }
 
+/**
+ * Dispose a memo - stop tracking sources and keep the last value
+ */
+function disposeMemo<T>(state: MemoState<T>): void {
+  if (state.disposed) return
+  
+  state.disposed = true
+  disposeOwner(state.owner)
+  cleanupContext(state.context)
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') recordDispose(state.context)
+}
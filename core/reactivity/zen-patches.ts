@@ -0,0 +1,338 @@
+/**
+ * Zenith Patches - JSON Patch Change Stream for State
+ * 
+ * Turns the mutations of a `zenState` object into RFC 6902 JSON Patch
+ * operations, and applies patches back to a state. Useful for syncing
+ * state to a server, persisting changes incrementally, or collaboration.
+ * 
+ * Mapping of mutations to operations:
+ * - Adding a property, Map entry or array element: `add`
+ * - Changing an existing one: `replace`
+ * - Deleting (including array truncation and `clear()`): `remove`
+ * - Set changes: `replace` of the whole Set as an array
+ * 
+ * Paths are JSON Pointers relative to the observed state. Map keys are
+ * converted to strings.
+ * 
+ * @example
+ * ```ts
+ * const todos = zenState({ items: [{ text: 'a', done: false }] })
+ * 
+ * observePatches(todos, patch => socket.send(JSON.stringify(patch)))
+ * 
+ * todos.items[0].done = true
+ * // { op: 'replace', path: '/items/0/done', value: true }
+ * todos.items.push({ text: 'b', done: false })
+ * // { op: 'add', path: '/items/1', value: { text: 'b', done: false } }
+ * 
+ * // On the other side
+ * socket.onmessage = event => applyPatches(replica, [JSON.parse(event.data)])
+ * ```
+ */
+
+import { zenBatch } from './zen-batch'
+import {
+  isReactive,
+  toRaw,
+  observeMutations,
+  cloneDeep,
+  replaceContents,
+  type StateMutation
+} from './zen-state'
+import { onCleanup } from './owner'
+
+/**
+ * RFC 6902 patch operation
+ */
+export type Patch =
+  | { op: 'add', path: string, value: unknown }
+  | { op: 'remove', path: string }
+  | { op: 'replace', path: string, value: unknown }
+  | { op: 'move', from: string, path: string }
+  | { op: 'copy', from: string, path: string }
+  | { op: 'test', path: string, value: unknown }
+
+/**
+ * Patch listener - called once per mutation
+ */
+export type PatchListener = (patch: Patch) => void
+
+/**
+ * Observe a reactive state object as a stream of JSON Patch operations
+ * 
+ * The listener is called synchronously for every mutation, inside the
+ * batch of the mutation. Values are deep copies, so patches can be kept
+ * and serialized later.
+ * 
+ * @param state - The reactive state to observe
+ * @param listener - Called with each patch
+ * @returns Stop observing
+ */
+export function observePatches(state: object, listener: PatchListener): () => void {
+  if (!isReactive(state)) {
+    throw new Error('observePatches requires a reactive state object')
+  }
+  
+  const stop = observeMutations(state, (mutation, path) => {
+    const patch = toPatch(mutation, path)
+    if (patch) listener(patch)
+  })
+  
+  // Stop observing when the enclosing scope is disposed
+  onCleanup(stop)
+  
+  return stop
+}
+
+/**
+ * Apply JSON Patch operations to a reactive state object
+ * 
+ * All operations are applied through the state proxy inside one batch,
+ * so effects run once with the final state. Throws if a path does not
+ * exist or a `test` operation fails; operations applied before the
+ * failure are kept.
+ * 
+ * @param state - The reactive state to update
+ * @param patches - The operations to apply, in order
+ */
+export function applyPatches(state: object, patches: readonly Patch[]): void {
+  if (!isReactive(state)) {
+    throw new Error('applyPatches requires a reactive state object')
+  }
+  
+  zenBatch(() => {
+    for (const patch of patches) {
+      applyPatch(state, patch)
+    }
+  })
+}
+
+/**
+ * Convert a captured mutation into a patch (null when it has no equivalent)
+ */
+function toPatch(mutation: StateMutation, path: unknown[]): Patch | null {
+  const { target, key } = mutation
+  
+  // Sets have no addressable elements - replace the whole Set
+  if (target instanceof Set) {
+    return { op: 'replace', path: formatPointer(path), value: cloneDeep([...target]) }
+  }
+  
+  // Array length changes are implied by the element operations
+  if (Array.isArray(target) && key === 'length') {
+    return null
+  }
+  
+  const pointer = formatPointer([...path, key])
+  
+  if (mutation.type === 'delete') {
+    return { op: 'remove', path: pointer }
+  }
+  
+  return {
+    op: mutation.hadKey ? 'replace' : 'add',
+    path: pointer,
+    value: cloneDeep(mutation.value)
+  }
+}
+
+/**
+ * Format path segments as a JSON Pointer
+ */
+function formatPointer(path: unknown[]): string {
+  return path
+    .map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('')
+}
+
+/**
+ * Parse a JSON Pointer into path segments
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid patch path "${pointer}"`)
+  }
+  
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Read a child of a container (object, array or Map)
+ */
+function getChild(container: unknown, segment: string): unknown {
+  if (container instanceof Map) {
+    return container.get(segment)
+  }
+  
+  return (container as Record<string, unknown>)[segment]
+}
+
+/**
+ * Whether a container has a child at a segment
+ */
+function hasChild(container: object, segment: string): boolean {
+  if (container instanceof Map) {
+    return container.has(segment)
+  }
+  
+  return segment in container
+}
+
+/**
+ * Resolve the container holding the last segment of a path
+ */
+function resolveParent(state: object, pointer: string): { parent: object, key: string } {
+  const segments = parsePointer(pointer)
+  const key = segments.pop()
+  let parent: unknown = state
+  
+  for (const segment of segments) {
+    parent = getChild(parent, segment)
+  }
+  
+  if (key === undefined || parent === null || typeof parent !== 'object') {
+    throw new Error(`Cannot apply patch: path "${pointer}" does not exist`)
+  }
+  
+  return { parent, key }
+}
+
+/**
+ * Read the value at a path
+ */
+function getValue(state: object, pointer: string): unknown {
+  if (pointer === '') return state
+  
+  const { parent, key } = resolveParent(state, pointer)
+  
+  if (!hasChild(parent, key)) {
+    throw new Error(`Cannot apply patch: path "${pointer}" does not exist`)
+  }
+  
+  return getChild(parent, key)
+}
+
+/**
+ * Parse an array index segment (`-` means past the end)
+ */
+function arrayIndex(array: unknown[], key: string, pointer: string, allowEnd: boolean): number {
+  const index = key === '-' ? array.length : Number(key)
+  const max = allowEnd ? array.length : array.length - 1
+  
+  if (!Number.isInteger(index) || index < 0 || index > max) {
+    throw new Error(`Cannot apply patch: index "${key}" out of bounds at "${pointer}"`)
+  }
+  
+  return index
+}
+
+/**
+ * Add or replace a value at a path
+ */
+function setValue(state: object, pointer: string, value: unknown, insert: boolean): void {
+  if (pointer === '') {
+    replaceContents(state, toRaw(value) as object)
+    return
+  }
+  
+  const { parent, key } = resolveParent(state, pointer)
+  
+  if (!insert && !Array.isArray(parent) && !(parent instanceof Map) && !hasChild(parent, key)) {
+    throw new Error(`Cannot apply patch: path "${pointer}" does not exist`)
+  }
+  
+  const index = Array.isArray(parent) ? arrayIndex(parent, key, pointer, insert) : -1
+  const current = Array.isArray(parent) ? (insert ? undefined : parent[index]) : getChild(parent, key)
+  
+  // Sets are patched as arrays
+  if (current instanceof Set && Array.isArray(value)) {
+    replaceContents(current, value)
+  } else if (Array.isArray(parent)) {
+    if (insert) {
+      parent.splice(index, 0, value)
+    } else {
+      parent[index] = value
+    }
+  } else if (parent instanceof Map) {
+    parent.set(key, value)
+  } else {
+    (parent as Record<string, unknown>)[key] = value
+  }
+}
+
+/**
+ * Remove the value at a path
+ */
+function removeValue(state: object, pointer: string): void {
+  const { parent, key } = resolveParent(state, pointer)
+  
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, false), 1)
+  } else if (!hasChild(parent, key)) {
+    throw new Error(`Cannot apply patch: path "${pointer}" does not exist`)
+  } else if (parent instanceof Map) {
+    parent.delete(key)
+  } else {
+    delete (parent as Record<string, unknown>)[key]
+  }
+}
+
+/**
+ * Apply a single operation
+ */
+function applyPatch(state: object, patch: Patch): void {
+  switch (patch.op) {
+    case 'add':
+      setValue(state, patch.path, cloneDeep(patch.value), true)
+      break
+    case 'replace':
+      setValue(state, patch.path, cloneDeep(patch.value), false)
+      break
+    case 'remove':
+      removeValue(state, patch.path)
+      break
+    case 'move': {
+      const value = toRaw(getValue(state, patch.from))
+      removeValue(state, patch.from)
+      setValue(state, patch.path, value, true)
+      break
+    }
+    case 'copy':
+      setValue(state, patch.path, cloneDeep(toRaw(getValue(state, patch.from))), true)
+      break
+    case 'test':
+      if (!deepEqual(toRaw(getValue(state, patch.path)), patch.value)) {
+        throw new Error(`Patch test failed at "${patch.path}"`)
+      }
+      break
+  }
+}
+
+/**
+ * Structural equality for `test` operations
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false
+  
+  // Sets compare to arrays, like they are emitted
+  if (a instanceof Set) a = [...a]
+  if (b instanceof Set) b = [...b]
+  if (a instanceof Map) a = Object.fromEntries(a)
+  if (b instanceof Map) b = Object.fromEntries(b)
+  
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  
+  const aRecord = toRaw(a) as Record<string, unknown>
+  const bRecord = toRaw(b) as Record<string, unknown>
+  const aKeys = Object.keys(aRecord)
+  const bKeys = Object.keys(bRecord)
+  
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => Object.prototype.hasOwnProperty.call(bRecord, key) && deepEqual(aRecord[key], bRecord[key]))
+}
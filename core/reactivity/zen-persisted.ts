@@ -0,0 +1,393 @@
+/**
+ * Zenith Persisted - Storage-Backed Signals and State
+ * 
+ * Signals and state objects that load their value from storage, write
+ * every change back, and stay in sync across browser tabs.
+ * 
+ * Features:
+ * - Pluggable storage: localStorage (default), sessionStorage, memory or
+ *   any custom (sync or async) adapter
+ * - Custom serializers (JSON by default)
+ * - Versioned values with `migrate` for old formats
+ * - Cross-tab sync via BroadcastChannel
+ * - SSR-safe: without `window`, web storage falls back to memory and
+ *   cross-tab sync is disabled
+ * - Storage writes and the channel stop with the owner scope
+ * 
+ * @example
+ * ```ts
+ * const theme = persistedSignal('theme', 'light')
+ * theme('dark') // Saved to localStorage, other tabs update too
+ * 
+ * const cart = persistedState('cart', { items: [] as Item[] }, {
+ *   storage: createWebStorage('session'),
+ *   version: 2,
+ *   migrate: (old, version) => upgradeCart(old, version)
+ * })
+ * cart.items.push(item) // Saved once per microtask
+ * 
+ * // Custom async storage (e.g. IndexedDB)
+ * const draft = persistedSignal('draft', '', { storage: idbAdapter })
+ * await draft.ready
+ * ```
+ */
+
+import { zenSignal, type Signal } from './zen-signal'
+import { zenState, toRaw, observeMutations, cloneDeep, replaceContents } from './zen-state'
+import { zenBatch } from './zen-batch'
+import { onCleanup } from './owner'
+
+/**
+ * Storage adapter - a (possibly async) key/value string store
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null | PromiseLike<string | null>
+  setItem(key: string, value: string): void | PromiseLike<void>
+  removeItem(key: string): void | PromiseLike<void>
+}
+
+/**
+ * Converts stored values to and from strings
+ */
+export interface Serializer {
+  stringify(value: unknown): string
+  parse(raw: string): unknown
+}
+
+/**
+ * Persistence options
+ */
+export interface PersistOptions<T> {
+  /** Where to store the value (defaults to localStorage) */
+  storage?: StorageAdapter
+  /** How to serialize the value (defaults to JSON) */
+  serializer?: Serializer
+  /** Version of the stored format (defaults to 0) */
+  version?: number
+  /** Convert a value stored with another version */
+  migrate?: (persisted: unknown, version: number) => T
+  /** Sync changes to other tabs via BroadcastChannel (defaults to true) */
+  sync?: boolean
+}
+
+/**
+ * Persisted signal - a signal with storage controls
+ */
+export interface PersistedSignal<T> extends Signal<T> {
+  /** Resolves once the stored value has been loaded */
+  ready: Promise<void>
+  /** Remove the stored value and reset to the initial value */
+  clear(): void
+}
+
+/**
+ * Stored envelope - the value together with its format version
+ */
+interface StoredValue {
+  version: number
+  value: unknown
+}
+
+/**
+ * Message sent to other tabs (null when the value was cleared)
+ */
+type SyncMessage = { raw: string | null }
+
+/**
+ * Shared by all persisted values unless overridden
+ */
+const jsonSerializer: Serializer = {
+  stringify: value => JSON.stringify(value),
+  parse: raw => JSON.parse(raw)
+}
+
+/**
+ * Create an in-memory storage adapter
+ * 
+ * Useful for tests and as the server-side fallback.
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const items = new Map<string, string>()
+  
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: key => {
+      items.delete(key)
+    }
+  }
+}
+
+/**
+ * Create a storage adapter for localStorage or sessionStorage
+ * 
+ * Falls back to memory storage when web storage is unavailable (SSR,
+ * disabled cookies, sandboxed iframes).
+ * 
+ * @param type - `local` or `session`
+ */
+export function createWebStorage(type: 'local' | 'session' = 'local'): StorageAdapter {
+  try {
+    if (typeof window !== 'undefined') {
+      const storage = type === 'local' ? window.localStorage : window.sessionStorage
+      if (storage) return storage
+    }
+  } catch {
+    // Access to web storage can throw - use memory instead
+  }
+  
+  return createMemoryStorage()
+}
+
+/**
+ * Create a signal persisted in storage
+ * 
+ * @param key - Storage key
+ * @param initialValue - Value used when nothing is stored
+ * @param options - Storage, serializer, version and sync options
+ * @returns A signal with `ready` and `clear()`
+ */
+export function persistedSignal<T>(
+  key: string,
+  initialValue: T,
+  options: PersistOptions<T> = {}
+): PersistedSignal<T> {
+  const persistence = createPersistence(key, options)
+  const signal = zenSignal(initialValue) as PersistedSignal<T>
+  
+  /** Last loaded or synced value, so it is not written back */
+  let received: { value: T } | null = null
+  let changed = false
+  
+  const receive = (raw: string | null, hydrating: boolean) => {
+    // A local write before hydration finished wins over the stored value
+    if (hydrating && changed) return
+    
+    const value = raw === null ? initialValue : persistence.decode(raw, initialValue)
+    received = { value }
+    signal(value)
+  }
+  
+  // Subscribers may run deferred (microtask scheduling), so the received
+  // value is recognized by identity rather than by a flag
+  signal.subscribe(value => {
+    const skip = received !== null && Object.is(received.value, value)
+    received = null
+    if (skip) return
+    
+    changed = true
+    persistence.write(value)
+  })
+  
+  signal.ready = persistence.load(raw => receive(raw, true))
+  persistence.listen(raw => receive(raw, false))
+  
+  signal.clear = () => {
+    receive(null, false)
+    persistence.remove()
+  }
+  
+  return signal
+}
+
+/**
+ * Create a deeply reactive state object persisted in storage
+ * 
+ * Mutations are coalesced and written once per microtask. With async
+ * storage, the stored value is applied when it has loaded.
+ * 
+ * @param key - Storage key
+ * @param initialValue - Value used when nothing is stored
+ * @param options - Storage, serializer, version and sync options
+ * @returns A reactive state object
+ */
+export function persistedState<T extends object>(
+  key: string,
+  initialValue: T,
+  options: PersistOptions<T> = {}
+): T {
+  const persistence = createPersistence(key, options)
+  const initial = cloneDeep(initialValue)
+  const state = zenState(initialValue)
+  
+  /** Set while applying a loaded or synced value, so it is not written back */
+  let receiving = false
+  let changed = false
+  let writeScheduled = false
+  
+  const receive = (raw: string | null, hydrating: boolean) => {
+    if (hydrating && changed) return
+    
+    const value = raw === null ? initial : persistence.decode(raw, initial)
+    
+    receiving = true
+    try {
+      zenBatch(() => replaceContents(state, cloneDeep(value)))
+    } finally {
+      receiving = false
+    }
+  }
+  
+  const stop = observeMutations(state, () => {
+    if (receiving) return
+    changed = true
+    
+    if (writeScheduled) return
+    writeScheduled = true
+    
+    queueMicrotask(() => {
+      if (!writeScheduled) return
+      writeScheduled = false
+      persistence.write(toRaw(state))
+    })
+  })
+  
+  onCleanup(stop)
+  
+  persistence.load(raw => receive(raw, true))
+  persistence.listen(raw => receive(raw, false))
+  
+  return state
+}
+
+/**
+ * Storage, serialization and cross-tab sync for one key
+ */
+interface Persistence {
+  /** Load the stored value; `apply` receives null when nothing is stored */
+  load(apply: (raw: string) => void): Promise<void>
+  /** Decode a stored string, migrating or falling back as needed */
+  decode<T>(raw: string, fallback: T): T
+  /** Store a value and notify other tabs */
+  write(value: unknown): void
+  /** Remove the stored value and notify other tabs */
+  remove(): void
+  /** Receive values written by other tabs */
+  listen(apply: (raw: string | null) => void): void
+}
+
+/**
+ * Open the cross-tab channel of a key
+ * 
+ * Only in browsers: servers (Node, Bun) have BroadcastChannel too, but
+ * there it would connect unrelated requests within the process.
+ */
+function openSyncChannel(key: string): BroadcastChannel | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return null
+  }
+  
+  const channel = new BroadcastChannel(`zenith:persist:${key}`)
+  
+  // Never keep the process alive (e.g. in browser-like test environments)
+  ;(channel as { unref?: () => void }).unref?.()
+  
+  return channel
+}
+
+/**
+ * Create the persistence layer shared by signals and state
+ */
+function createPersistence<T>(key: string, options: PersistOptions<T>): Persistence {
+  const storage = options.storage ?? createWebStorage('local')
+  const serializer = options.serializer ?? jsonSerializer
+  const version = options.version ?? 0
+  
+  const channel = options.sync !== false ? openSyncChannel(key) : null
+  
+  let disposed = false
+  
+  onCleanup(() => {
+    disposed = true
+    channel?.close()
+  })
+  
+  const report = (action: string) => (error: unknown) => {
+    console.error(`[Zenith] Failed to ${action} persisted "${key}":`, error)
+  }
+  
+  const settle = (result: void | PromiseLike<void>, action: string) => {
+    const pending = result as PromiseLike<void> | undefined
+    if (typeof pending?.then === 'function') {
+      pending.then(undefined, report(action))
+    }
+  }
+  
+  return {
+    load(apply) {
+      let result: string | null | PromiseLike<string | null>
+      
+      try {
+        result = storage.getItem(key)
+      } catch (error) {
+        report('load')(error)
+        return Promise.resolve()
+      }
+      
+      if (result === null || typeof result === 'string') {
+        if (result !== null) apply(result)
+        return Promise.resolve()
+      }
+      
+      return Promise.resolve(result).then(
+        raw => {
+          if (raw !== null && !disposed) apply(raw)
+        },
+        report('load')
+      )
+    },
+    
+    decode<V>(raw: string, fallback: V): V {
+      try {
+        const stored = serializer.parse(raw) as StoredValue
+        
+        if (stored.version === version) {
+          return stored.value as V
+        }
+        
+        if (options.migrate) {
+          return options.migrate(stored.value, stored.version) as unknown as V
+        }
+        
+        console.warn(`[Zenith] Discarding persisted "${key}": stored version ${stored.version}, expected ${version}`)
+      } catch (error) {
+        console.warn(`[Zenith] Discarding persisted "${key}": value could not be read`, error)
+      }
+      
+      return fallback
+    },
+    
+    write(value) {
+      if (disposed) return
+      
+      try {
+        const raw = serializer.stringify({ version, value } satisfies StoredValue)
+        settle(storage.setItem(key, raw), 'save')
+        channel?.postMessage({ raw } satisfies SyncMessage)
+      } catch (error) {
+        report('save')(error)
+      }
+    },
+    
+    remove() {
+      if (disposed) return
+      
+      try {
+        settle(storage.removeItem(key), 'remove')
+        channel?.postMessage({ raw: null } satisfies SyncMessage)
+      } catch (error) {
+        report('remove')(error)
+      }
+    },
+    
+    listen(apply) {
+      if (!channel) return
+      
+      channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+        if (!disposed) apply(event.data.raw)
+      }
+    }
+  }
+}
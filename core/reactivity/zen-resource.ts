@@ -0,0 +1,233 @@
+/**
+ * Zenith Resource - Async Data Source
+ * 
+ * A resource ties an async fetcher into the reactivity system. It tracks
+ * an optional source, re-fetches whenever the source changes, and exposes
+ * the result together with loading and error state as reactive values.
+ * 
+ * Features:
+ * - Reactive `data()`, `loading()` and `error()`
+ * - Re-fetches when the tracked source changes
+ * - Aborts stale requests (AbortController) - only the latest result wins
+ * - Manual `refetch()` and optimistic `mutate()`
+ * - Aborted and stopped with the owner scope it was created in
+ * 
+ * @example
+ * ```ts
+ * const userId = zenSignal(1)
+ * 
+ * const user = zenResource(userId, async (id, { signal }) => {
+ *   const res = await fetch(`/api/users/${id}`, { signal })
+ *   return res.json()
+ * })
+ * 
+ * zenEffect(() => {
+ *   if (user.loading()) console.log('Loading...')
+ *   else if (user.error()) console.log('Failed:', user.error())
+ *   else console.log('User:', user())
+ * })
+ * 
+ * userId(2)        // Aborts the request for user 1, fetches user 2
+ * user.refetch()   // Fetches user 2 again
+ * ```
+ * 
+ * A source returning `false`, `null` or `undefined` pauses fetching.
+ */
+
+import { zenSignal } from './zen-signal'
+import { zenEffect } from './zen-effect'
+import { zenBatch } from './zen-batch'
+import { zenUntrack } from './zen-untrack'
+import { onCleanup } from './owner'
+
+/**
+ * Source getter - returning false, null or undefined skips fetching
+ */
+export type ResourceSource<S> = () => S | false | null | undefined
+
+/**
+ * Information passed to the fetcher alongside the source value
+ */
+export interface ResourceFetcherInfo {
+  /** Aborted when the request is superseded or the resource is disposed */
+  signal: AbortSignal
+  /** Whether this fetch was triggered by refetch() */
+  refetching: boolean
+}
+
+/**
+ * Fetcher function - receives the current source value
+ */
+export type ResourceFetcher<S, T> = (source: S, info: ResourceFetcherInfo) => T | PromiseLike<T>
+
+/**
+ * Resource options
+ */
+export interface ResourceOptions<T> {
+  /** Value of data() before the first fetch resolves */
+  initialValue?: T
+}
+
+/**
+ * Resource interface - callable data getter with async state accessors
+ */
+export interface Resource<T> {
+  /** Get the latest resolved value (tracks dependency) */
+  (): T | undefined
+  /** Get the latest resolved value (tracks dependency) */
+  data(): T | undefined
+  /** Whether a fetch is in flight (tracks dependency) */
+  loading(): boolean
+  /** The error of the latest fetch, if it failed (tracks dependency) */
+  error(): unknown
+  /** Fetch again with the current source value */
+  refetch(): Promise<T | undefined>
+  /** Overwrite data() locally without fetching */
+  mutate(value: T | undefined): void
+}
+
+/**
+ * Create an async resource without a source
+ * 
+ * @param fetcher - Loads the value
+ * @param options - Optional initial value
+ */
+export function zenResource<T>(
+  fetcher: ResourceFetcher<true, T>,
+  options?: ResourceOptions<T>
+): Resource<T>
+/**
+ * Create an async resource that re-fetches when its source changes
+ * 
+ * @param source - Tracked getter (e.g. a signal) providing the fetcher input
+ * @param fetcher - Loads the value for a source value
+ * @param options - Optional initial value
+ */
+export function zenResource<T, S>(
+  source: ResourceSource<S>,
+  fetcher: ResourceFetcher<S, T>,
+  options?: ResourceOptions<T>
+): Resource<T>
+export function zenResource<T, S>(
+  sourceOrFetcher: ResourceSource<S> | ResourceFetcher<true, T>,
+  fetcherOrOptions?: ResourceFetcher<S, T> | ResourceOptions<T>,
+  maybeOptions?: ResourceOptions<T>
+): Resource<T> {
+  const hasSource = typeof fetcherOrOptions === 'function'
+  const source = (hasSource ? sourceOrFetcher : () => true) as ResourceSource<S>
+  const fetcher = (hasSource ? fetcherOrOptions : sourceOrFetcher) as ResourceFetcher<S, T>
+  const options = (hasSource ? maybeOptions : fetcherOrOptions) as ResourceOptions<T> | undefined
+  
+  const data = zenSignal<T | undefined>(options?.initialValue)
+  const loading = zenSignal(false)
+  const error = zenSignal<unknown>(undefined)
+  
+  /** Controller of the in-flight request (null when idle) */
+  let controller: AbortController | null = null
+  /** Last source value that triggered a fetch */
+  let lastSource: { value: S } | null = null
+  let disposed = false
+  
+  function abort(): void {
+    if (controller) {
+      controller.abort()
+      controller = null
+    }
+  }
+  
+  function settle(current: AbortController, value: T | undefined, err: unknown, failed: boolean): void {
+    // Ignore results of superseded or disposed requests
+    if (controller !== current || disposed) return
+    controller = null
+    
+    zenBatch(() => {
+      if (failed) {
+        error(err)
+      } else {
+        data(value)
+        error(undefined)
+      }
+      loading(false)
+    })
+  }
+  
+  function load(value: S, refetching: boolean): Promise<T | undefined> {
+    abort()
+    const current = new AbortController()
+    controller = current
+    
+    let result: T | PromiseLike<T>
+    try {
+      result = fetcher(value, { signal: current.signal, refetching })
+    } catch (err) {
+      settle(current, undefined, err, true)
+      return Promise.resolve(undefined)
+    }
+    
+    if (!isPromiseLike(result)) {
+      settle(current, result, undefined, false)
+      return Promise.resolve(result)
+    }
+    
+    loading(true)
+    
+    return Promise.resolve(result).then(
+      resolved => {
+        settle(current, resolved, undefined, false)
+        return resolved
+      },
+      (err: unknown) => {
+        settle(current, undefined, err, true)
+        return undefined
+      }
+    )
+  }
+  
+  // Fetch whenever the source changes
+  zenEffect(() => {
+    const value = source()
+    
+    zenUntrack(() => {
+      if (value === false || value === null || value === undefined) {
+        lastSource = null
+        abort()
+        loading(false)
+        return
+      }
+      
+      lastSource = { value }
+      load(value, false)
+    })
+  })
+  
+  // Abort in-flight requests when the enclosing scope is disposed
+  onCleanup(() => {
+    disposed = true
+    abort()
+  })
+  
+  const resource = (() => data()) as Resource<T>
+  resource.data = () => data()
+  resource.loading = () => loading()
+  resource.error = () => error()
+  resource.refetch = () => {
+    if (!lastSource || disposed) return Promise.resolve(undefined)
+    return load(lastSource.value, true)
+  }
+  resource.mutate = (value: T | undefined) => {
+    data(value)
+  }
+  
+  return resource
+}
+
+/**
+ * Check whether a fetcher result is a promise/thenable
+ */
+function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return (
+    value !== null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  )
+}
@@ -0,0 +1,124 @@
+/**
+ * Zenith Selector - Keyed Subscriptions to a Single Value
+ * 
+ * `isSelected(key)` tracks a subscription per key instead of tracking the
+ * source itself. When the source changes, only the subscribers of the
+ * previously and newly selected keys are notified - two effects re-run
+ * instead of one per list row.
+ * 
+ * @example
+ * ```ts
+ * const selectedId = zenSignal<number | null>(null)
+ * const isSelected = createSelector(selectedId)
+ * 
+ * for (const row of rows) {
+ *   zenEffect(() => {
+ *     row.element.classList.toggle('selected', isSelected(row.id))
+ *   })
+ * }
+ * 
+ * selectedId(42) // Only row 42 (and the previously selected row) update
+ * ```
+ * 
+ * With a custom comparison every key with subscribers is re-checked on
+ * change, but only keys whose result flipped are notified:
+ * 
+ * ```ts
+ * const isInRange = createSelector(cursor, (row: number, at) => Math.abs(row - at) < 5)
+ * ```
+ */
+
+import { trackDependency, notifySubscribers, getCurrentContext, type Subscriber } from './tracking'
+import { zenMemo } from './zen-memo'
+import { zenEffect } from './zen-effect'
+import { zenUntrack } from './zen-untrack'
+import { zenBatch } from './zen-batch'
+import { onCleanup } from './owner'
+
+/**
+ * Compares a key to the source value
+ */
+export type SelectorEqualsFn<K, T> = (key: K, value: T) => boolean
+
+/**
+ * Create a keyed selector over a source
+ * 
+ * @param source - The selected value (signal, memo or getter)
+ * @param equals - Whether a key matches the value (defaults to Object.is)
+ * @returns `isSelected(key)`, which tracks only that key
+ */
+export function createSelector<T, K = T>(
+  source: () => T,
+  equals?: SelectorEqualsFn<K, T>
+): (key: K) => boolean {
+  const matches: SelectorEqualsFn<K, T> = equals ?? ((key, value) => Object.is(key, value))
+  const subscribersByKey = new Map<K, Set<Subscriber>>()
+  const value = zenMemo(source)
+  
+  let previous = zenUntrack(value)
+  
+  // Notify the keys whose result changed
+  zenEffect(() => {
+    const next = value()
+    
+    zenUntrack(() => {
+      const prev = previous
+      previous = next
+      
+      zenBatch(() => {
+        if (equals) {
+          for (const [key, subscribers] of [...subscribersByKey]) {
+            if (matches(key, prev) !== matches(key, next)) {
+              notifyKey(key, subscribers)
+            }
+          }
+        } else {
+          // Only the previous and the next key can have changed
+          notifyKey(prev as unknown as K)
+          notifyKey(next as unknown as K)
+        }
+      })
+    })
+  })
+  
+  function notifyKey(key: K, subscribers = subscribersByKey.get(key)): void {
+    if (!subscribers) return
+    
+    // Drop keys nobody reads anymore
+    if (subscribers.size === 0) {
+      subscribersByKey.delete(key)
+      return
+    }
+    
+    notifySubscribers(subscribers)
+  }
+  
+  function releaseKey(key: K, subscribers: Set<Subscriber>): void {
+    if (subscribers.size === 0 && subscribersByKey.get(key) === subscribers) {
+      subscribersByKey.delete(key)
+    }
+  }
+  
+  return (key: K) => {
+    // Only tracked reads create a subscription for the key
+    if (getCurrentContext()) {
+      let subscribers = subscribersByKey.get(key)
+      
+      if (!subscribers) {
+        subscribers = new Set()
+        subscribersByKey.set(key, subscribers)
+      }
+      
+      trackDependency(subscribers)
+      
+      // Drop the key once its last reader is gone. Checked on a microtask,
+      // after a re-running reader has had the chance to read it again.
+      const tracked = subscribers
+      onCleanup(() => queueMicrotask(() => releaseKey(key, tracked)))
+    }
+    
+    // Read through the memo untracked, so the result is current even
+    // before the notifying effect has run
+    return matches(key, zenUntrack(value))
+  }
+}
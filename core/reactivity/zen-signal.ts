@@ -8,6 +8,7 @@
  * - Getter/setter model
  * - Automatic dependency tracking
  * - Fine-grained reactivity (no component re-rendering)
+ * - Manual subscriptions are released with the owner scope they were created in
  * 
  * @example
  * ```ts
@@ -22,45 +23,114 @@
  * // Or use .value
  * count.value = 2
  * console.log(count.value) // 2
+ * 
+ * // Derive the next value from the current one
+ * count.update(n => n + 1)
+ * 
+ * // Custom equality - structurally equal arrays don't notify
+ * const rows = zenSignal<number[]>([], {
+ *   equals: (a, b) => a.length === b.length && a.every((v, i) => v === b[i])
+ * })
+ * 
+ * // Hand out a read-only view - only the owner of `count` can write
+ * const total: ReadonlySignal<number> = count.asReadonly()
+ * 
+ * // Or keep reads and writes apart from the start
+ * const [name, setName] = createSignal('Ann')
+ * setName('Bob')
  * ```
  */
 
 import { trackDependency, notifySubscribers, type Subscriber } from './tracking'
+import { onCleanup } from './owner'
+import { bindEffectRuntime } from './scheduler'
+import { registerNode, recordUpdate } from './devtools'
+import { forkWrite, readFork } from './transition'
+import { attachInterop } from './interop'
+import { checkSignalWrite } from './diagnostics'
+
+/**
+ * Equality check used to decide whether a new value should notify
+ */
+export type EqualityFn<T> = (prev: T, next: T) => boolean
+
+/**
+ * Signal options
+ */
+export interface SignalOptions<T> {
+  /**
+   * Equality check between the old and new value (defaults to Object.is).
+   * Pass `false` to notify on every write.
+   */
+  equals?: EqualityFn<T> | false
+  /** Debug name shown in devtools (development only) */
+  name?: string
+}
 
 /**
- * Signal interface - callable getter/setter with .value accessor
+ * Read-only signal - callable getter with .value accessor
  */
-export interface Signal<T> {
+export interface ReadonlySignal<T> {
   /** Get the current value (also tracks dependency) */
   (): T
-  /** Set a new value */
-  (value: T): void
-  /** Get/set value via property */
-  value: T
+  /** Get value via property (also tracks dependency) */
+  readonly value: T
   /** Peek at value without tracking */
   peek(): T
   /** Subscribe to changes */
   subscribe(fn: (value: T) => void): () => void
+  /** Iterate the current value and every change (also `Symbol.observable`) */
+  [Symbol.asyncIterator](): AsyncIterableIterator<T>
+}
+
+/**
+ * Writable signal - callable getter/setter with .value accessor
+ */
+export interface WritableSignal<T> extends ReadonlySignal<T> {
+  /** Set a new value */
+  (value: T): void
+  // The getter is declared last, so `() => T` parameters infer T from it
+  /** Get the current value (also tracks dependency) */
+  (): T
+  /** Get/set value via property */
+  value: T
+  /** Set a new value computed from the current one */
+  update(fn: (value: T) => T): void
+  /** Get a read-only view of this signal (always the same view) */
+  asReadonly(): ReadonlySignal<T>
 }
 
+/**
+ * Signal interface - a writable signal
+ */
+export type Signal<T> = WritableSignal<T>
+
+/**
+ * Setter returned by createSignal
+ */
+export type SignalSetter<T> = (value: T) => void
+
 /**
  * Internal signal state
  */
 interface SignalState<T> {
   value: T
   subscribers: Set<Subscriber>
+  equals: EqualityFn<T> | false
 }
 
 /**
  * Create a reactive signal
  * 
  * @param initialValue - The initial value of the signal
+ * @param options - Optional equality configuration
  * @returns A signal that can be read and written
  */
-export function zenSignal<T>(initialValue: T): Signal<T> {
+export function zenSignal<T>(initialValue: T, options: SignalOptions<T> = {}): Signal<T> {
   const state: SignalState<T> = {
     value: initialValue,
-    subscribers: new Set()
+    subscribers: new Set(),
+    equals: options.equals ?? Object.is
   }
 
   // The signal function - acts as both getter and setter
@@ -68,16 +138,10 @@ export function zenSignal<T>(initialValue: T): Signal<T> {
     if (arguments.length === 0) {
       // Getter - track dependency and return value
       trackDependency(state.subscribers)
-      return state.value
+      return readFork(state, state.value)
     } else {
       // Setter - update value and notify
-      const oldValue = state.value
-      state.value = newValue as T
-      
-      if (!Object.is(oldValue, newValue)) {
-        notifySubscribers(state.subscribers)
-      }
-      
+      writeSignal(state, newValue as T)
       return state.value
     }
   }
@@ -86,15 +150,10 @@ export function zenSignal<T>(initialValue: T): Signal<T> {
   Object.defineProperty(signal, 'value', {
     get() {
       trackDependency(state.subscribers)
-      return state.value
+      return readFork(state, state.value)
     },
     set(newValue: T) {
-      const oldValue = state.value
-      state.value = newValue
-      
-      if (!Object.is(oldValue, newValue)) {
-        notifySubscribers(state.subscribers)
-      }
+      writeSignal(state, newValue)
     },
     enumerable: true,
     configurable: false
@@ -102,20 +161,101 @@ export function zenSignal<T>(initialValue: T): Signal<T> {
 
   // Add .peek() - read without tracking
   ;(signal as Signal<T>).peek = function(): T {
-    return state.value
+    return readFork(state, state.value)
+  }
+
+  // Add .update() - write a value derived from the current one
+  ;(signal as Signal<T>).update = function(fn: (value: T) => T): void {
+    writeSignal(state, fn(readFork(state, state.value)))
   }
 
   // Add .subscribe() - manual subscription
   ;(signal as Signal<T>).subscribe = function(fn: (value: T) => void): () => void {
     const subscriber: Subscriber = () => fn(state.value)
+    bindEffectRuntime(subscriber)
     state.subscribers.add(subscriber)
     
-    // Return unsubscribe function
-    return () => {
+    const unsubscribe = () => {
       state.subscribers.delete(subscriber)
     }
+    
+    // Release together with the enclosing scope
+    onCleanup(unsubscribe)
+    
+    // Return unsubscribe function
+    return unsubscribe
+  }
+
+  // Add .asReadonly() - getter-only view, created on first use
+  let view: ReadonlySignal<T> | null = null
+  ;(signal as Signal<T>).asReadonly = function(): ReadonlySignal<T> {
+    return view ??= createReadonlyView(signal as Signal<T>)
+  }
+
+  // Add Symbol.observable / Symbol.asyncIterator - RxJS and for await
+  attachInterop(signal)
+
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') {
+    registerNode('signal', options.name, { source: state.subscribers, handle: signal })
   }
 
   return signal as Signal<T>
 }
 
+/**
+ * Create a signal as a `[get, set]` pair
+ * 
+ * The getter is read-only, so passing it around never grants write
+ * access; only the holder of the setter can change the value.
+ * 
+ * @param initialValue - The initial value of the signal
+ * @param options - Optional equality configuration
+ * @returns The read-only signal and its setter
+ */
+export function createSignal<T>(
+  initialValue: T,
+  options?: SignalOptions<T>
+): [get: ReadonlySignal<T>, set: SignalSetter<T>] {
+  const signal = zenSignal(initialValue, options)
+  return [signal.asReadonly(), value => signal(value)]
+}
+
+/**
+ * Create a getter-only view of a signal
+ * 
+ * Calling the view with an argument does not write.
+ */
+function createReadonlyView<T>(source: Signal<T>): ReadonlySignal<T> {
+  const view = () => source()
+  
+  Object.defineProperty(view, 'value', {
+    get: () => source.value,
+    enumerable: true,
+    configurable: false
+  })
+  
+  ;(view as ReadonlySignal<T>).peek = () => source.peek()
+  ;(view as ReadonlySignal<T>).subscribe = fn => source.subscribe(fn)
+  attachInterop(view)
+  
+  return view as ReadonlySignal<T>
+}
+
+/**
+ * Write a value and notify subscribers unless it is equal to the old one
+ * 
+ * Inside a transition the write is forked and applied on commit.
+ */
+function writeSignal<T>(state: SignalState<T>, newValue: T): void {
+  if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') checkSignalWrite(state.subscribers)
+  
+  if (forkWrite(state, newValue, () => writeSignal(state, newValue))) return
+  
+  const oldValue = state.value
+  state.value = newValue
+  
+  if (state.equals === false || !state.equals(oldValue, newValue)) {
+    if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') recordUpdate(state.subscribers)
+    notifySubscribers(state.subscribers)
+  }
+}
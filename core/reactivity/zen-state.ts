@@ -8,6 +8,12 @@
  * - Deep reactivity via nested Proxies
  * - Automatic dependency tracking on property access
  * - Triggers effects on property mutation
+ * - Structural tracking: adding/deleting keys and array length changes
+ *   re-run `for...in`, `Object.keys` and array iteration
+ * - Multi-step array methods (push, splice, ...) notify once
+ * - Reactive Map, Set, WeakMap and WeakSet (per-key, size and iteration tracking)
+ * - Raw access (`toRaw`), opt-out (`markRaw`), read-only views (`readonly`)
+ *   and top-level-only reactivity (`shallowState`)
  * 
  * @example
  * ```ts
@@ -24,17 +30,88 @@
  * // Mutation triggers effects
  * user.name = 'Jane'
  * user.address.city = 'LA'
+ * 
+ * // Collections are reactive too
+ * const selection = zenState({ ids: new Set<number>() })
+ * selection.ids.add(1)
+ * 
+ * // Hand out a view that cannot be mutated
+ * const view = readonly(user)
+ * view.name = 'Bob' // Warns, no change
+ * 
+ * // Get the plain object back
+ * const plain = toRaw(user)
  * ```
  */
 
-import { trackDependency, notifySubscribers, type Subscriber } from './tracking'
+import {
+  trackDependency,
+  notifySubscribers,
+  startBatch,
+  endBatch,
+  runUntracked,
+  type Subscriber
+} from './tracking'
+import { registerNode } from './devtools'
 
 /**
  * WeakMap to store proxy targets and their subscriber maps
  * Key: target object
- * Value: Map of property key -> subscriber set
+ * Value: Map of property key (or collection key) -> subscriber set
+ */
+const proxySubscribers = new WeakMap<object, Map<unknown, Set<Subscriber>>>()
+
+/**
+ * Dependency key for the set of keys (iteration, `size`, `Object.keys`)
+ */
+const KEYS_KEY = Symbol.for('zen:keys')
+
+/**
+ * Dependency key for iteration over collection values and entries
+ */
+const ITERATE_KEY = Symbol.for('zen:iterate')
+
+/**
+ * Array methods that mutate in several steps (each index, then length).
+ * They run untracked, so calling them inside an effect does not subscribe
+ * it to `length`, and batched, so subscribers see only the final array.
  */
-const proxySubscribers = new WeakMap<object, Map<string | symbol, Set<Subscriber>>>()
+const arrayMutators = new Set<string | symbol>([
+  'push',
+  'pop',
+  'shift',
+  'unshift',
+  'splice',
+  'sort',
+  'reverse',
+  'fill',
+  'copyWithin'
+])
+
+/**
+ * Wrapped array mutators by method, shared by all arrays like the native
+ * methods (so `state.items.push === state.items.push`)
+ */
+const wrappedMutators = new Map<string | symbol, Function>()
+
+/**
+ * Any of the supported keyed collections
+ */
+type Collection =
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | WeakMap<object, unknown>
+  | WeakSet<object>
+
+/**
+ * Deep read-only view of a state object
+ */
+export type DeepReadonly<T> =
+  T extends (...args: any[]) => unknown ? T :
+  T extends Map<infer K, infer V> ? ReadonlyMap<K, DeepReadonly<V>> :
+  T extends Set<infer U> ? ReadonlySet<DeepReadonly<U>> :
+  T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> } :
+  T
 
 /**
  * WeakMap to store original objects and their proxies
@@ -42,10 +119,73 @@ const proxySubscribers = new WeakMap<object, Map<string | symbol, Set<Subscriber
  */
 const proxyCache = new WeakMap<object, object>()
 
+/**
+ * Proxy caches for shallow reactive and read-only views
+ */
+const shallowProxyCache = new WeakMap<object, object>()
+const readonlyCache = new WeakMap<object, object>()
+
+/**
+ * Every proxy created here, mapped to the object it wraps
+ */
+const proxyTargets = new WeakMap<object, object>()
+
+/**
+ * Reactive (deep or shallow) and read-only proxies
+ */
+const reactiveProxies = new WeakSet<object>()
+const readonlyProxies = new WeakSet<object>()
+
+/**
+ * Objects opted out of proxying via markRaw
+ */
+const rawObjects = new WeakSet<object>()
+
+/**
+ * A single mutation captured by the proxy traps
+ * 
+ * Values are raw (unwrapped). `set` covers adding and replacing a property,
+ * array index or Map entry and adding a Set value (key and value are the
+ * value itself); `delete` covers deleting, array truncation and `clear()`.
+ * 
+ * @internal
+ */
+export interface StateMutation {
+  type: 'set' | 'delete'
+  /** The raw object, array or collection that was mutated */
+  target: object
+  /** Property key, Map key or Set value */
+  key: unknown
+  /** New value (`set` only) */
+  value?: unknown
+  /** Previous value (undefined when the key was added) */
+  oldValue?: unknown
+  /** Whether the key existed before the mutation */
+  hadKey: boolean
+}
+
+/**
+ * Mutation listener - receives the path from the observed root
+ * 
+ * @internal
+ */
+export type MutationListener = (mutation: StateMutation, path: unknown[]) => void
+
+/**
+ * Active mutation observers
+ */
+const mutationObservers = new Set<{ root: object, listener: MutationListener }>()
+
+/**
+ * Where a nested object was last read from or stored at: raw parent and
+ * key. Used to resolve the path of a mutation from an observed root.
+ */
+const parentLinks = new WeakMap<object, { parent: object, key: unknown }>()
+
 /**
  * Get or create subscriber set for a property
  */
-function getPropertySubscribers(target: object, key: string | symbol): Set<Subscriber> {
+function getPropertySubscribers(target: object, key: unknown): Set<Subscriber> {
   let propertyMap = proxySubscribers.get(target)
   
   if (!propertyMap) {
@@ -58,6 +198,7 @@ function getPropertySubscribers(target: object, key: string | symbol): Set<Subsc
   if (!subscribers) {
     subscribers = new Set()
     propertyMap.set(key, subscribers)
+    if (typeof process !== 'undefined' && process.env.NODE_ENV !== 'production') registerNode('state', String(key), { source: subscribers })
   }
   
   return subscribers
@@ -71,13 +212,14 @@ function shouldProxy(value: unknown): value is object {
     return false
   }
   
+  // Don't proxy objects opted out via markRaw
+  if (rawObjects.has(value)) {
+    return false
+  }
+  
   // Don't proxy special objects
   if (value instanceof Date || 
       value instanceof RegExp || 
-      value instanceof Map || 
-      value instanceof Set ||
-      value instanceof WeakMap ||
-      value instanceof WeakSet ||
       value instanceof Promise ||
       ArrayBuffer.isView(value)) {
     return false
@@ -86,18 +228,186 @@ function shouldProxy(value: unknown): value is object {
   return true
 }
 
+/**
+ * Check if a value is a keyed collection that needs collection handlers
+ */
+function isCollection(value: object): value is Collection {
+  return value instanceof Map ||
+    value instanceof Set ||
+    value instanceof WeakMap ||
+    value instanceof WeakSet
+}
+
+/**
+ * Wrap a value read from state in a reactive proxy if needed
+ */
+function toReactive<T>(value: T): T {
+  return shouldProxy(value) ? createReactiveProxy(value) : value
+}
+
+/**
+ * Notify the subscribers of several keys as one update
+ * 
+ * Mutation observers are called first, inside the same batch.
+ */
+function notifyKeys(target: object, keys: unknown[], mutations: StateMutation[] = []): void {
+  startBatch()
+  
+  try {
+    if (mutations.length > 0 && mutationObservers.size > 0) {
+      emitMutations(mutations)
+    }
+    
+    for (const key of keys) {
+      notifySubscribers(getPropertySubscribers(target, key))
+    }
+  } finally {
+    endBatch()
+  }
+}
+
+/**
+ * Deliver mutations to the observers whose root contains the target
+ */
+function emitMutations(mutations: StateMutation[]): void {
+  for (const observer of [...mutationObservers]) {
+    for (const mutation of mutations) {
+      const path = resolvePath(mutation.target, observer.root)
+      if (path) observer.listener(mutation, path)
+    }
+  }
+}
+
+/**
+ * Remember the parent of a nested object read or stored through a proxy
+ */
+function linkChild(child: object, parent: object, key: unknown): void {
+  parentLinks.set(child, { parent, key })
+}
+
+/**
+ * Find the key a parent currently holds a child at
+ * 
+ * Fallback for links that went stale, e.g. an element moved within its
+ * array without being read or written at its new index.
+ * 
+ * @returns The key, or undefined when the parent no longer holds the child
+ */
+function findChildKey(parent: object, child: object): unknown {
+  if (parent instanceof Set || parent instanceof WeakSet) {
+    return (parent as Set<unknown>).has(child) ? child : undefined
+  }
+  
+  if (parent instanceof Map) {
+    for (const [key, value] of parent) {
+      if (value === child) return key
+    }
+    return undefined
+  }
+  
+  if (parent instanceof WeakMap) {
+    return undefined
+  }
+  
+  if (Array.isArray(parent)) {
+    const index = parent.indexOf(child)
+    return index === -1 ? undefined : String(index)
+  }
+  
+  return Object.keys(parent).find(key => Reflect.get(parent, key) === child)
+}
+
+/**
+ * Check whether a parent still holds a child at the given key
+ */
+function holdsChild(parent: object, key: unknown, child: object): boolean {
+  if (parent instanceof Map || parent instanceof WeakMap) {
+    return (parent as Map<unknown, unknown>).get(key) === child
+  }
+  
+  if (parent instanceof Set || parent instanceof WeakSet) {
+    return (parent as Set<unknown>).has(child)
+  }
+  
+  return Reflect.get(parent, key as PropertyKey) === child
+}
+
+/**
+ * Resolve the path from a raw root to a raw target
+ * 
+ * Returns null when the target is not (or no longer) inside the root.
+ */
+function resolvePath(target: object, root: object): unknown[] | null {
+  const path: unknown[] = []
+  const visited = new Set<object>()
+  let current = target
+  
+  while (current !== root) {
+    const link = parentLinks.get(current)
+    
+    if (!link || visited.has(current)) {
+      return null
+    }
+    
+    if (!holdsChild(link.parent, link.key, current)) {
+      const key = findChildKey(link.parent, current)
+      if (key === undefined) return null
+      
+      link.key = key
+    }
+    
+    visited.add(current)
+    path.unshift(link.key)
+    current = link.parent
+  }
+  
+  return path
+}
+
+/**
+ * Register a newly created proxy in the caches and lookup tables
+ */
+function registerProxy<T extends object>(
+  cache: WeakMap<object, object>,
+  kind: WeakSet<object>,
+  target: object,
+  proxy: T
+): T {
+  cache.set(target, proxy)
+  proxyTargets.set(proxy, target)
+  kind.add(proxy)
+  return proxy
+}
+
 /**
  * Create a reactive proxy for an object
+ * 
+ * @param shallow - Only track the top level; nested objects are returned as-is
  */
-function createReactiveProxy<T extends object>(target: T): T {
+function createReactiveProxy<T extends object>(target: T, shallow = false): T {
+  // Already a proxy - never wrap twice
+  if (proxyTargets.has(target)) {
+    return target
+  }
+  
   // Check cache first
-  const cached = proxyCache.get(target)
+  const cache = shallow ? shallowProxyCache : proxyCache
+  const cached = cache.get(target)
   if (cached) {
     return cached as T
   }
   
+  if (isCollection(target)) {
+    return registerProxy(cache, reactiveProxies, target, createCollectionProxy(target, shallow))
+  }
+  
   const proxy = new Proxy(target, {
     get(target, key, receiver) {
+      // Batched, untracked array mutators
+      if (Array.isArray(target) && arrayMutators.has(key)) {
+        return getArrayMutator(key)
+      }
+      
       // Track dependency
       const subscribers = getPropertySubscribers(target, key)
       trackDependency(subscribers)
@@ -105,7 +415,8 @@ function createReactiveProxy<T extends object>(target: T): T {
       const value = Reflect.get(target, key, receiver)
       
       // Recursively proxy nested objects
-      if (shouldProxy(value)) {
+      if (!shallow && shouldProxy(value)) {
+        linkChild(value, target, key)
         return createReactiveProxy(value)
       }
       
@@ -114,28 +425,67 @@ function createReactiveProxy<T extends object>(target: T): T {
     
     set(target, key, value, receiver) {
       const oldValue = Reflect.get(target, key, receiver)
+      const hadKey = Object.prototype.hasOwnProperty.call(target, key)
+      const oldLength = Array.isArray(target) ? target.length : 0
       
       // Unwrap proxies before storing
-      const rawValue = value
+      const rawValue = toRaw(value)
+      
+      // Elements dropped by a length truncation
+      const mutations = Array.isArray(target) && key === 'length' && mutationObservers.size > 0
+        ? truncatedElements(target, rawValue)
+        : []
       
       const result = Reflect.set(target, key, rawValue, receiver)
       
-      // Only notify if value actually changed
-      if (!Object.is(oldValue, rawValue)) {
-        const subscribers = getPropertySubscribers(target, key)
-        notifySubscribers(subscribers)
+      if (!result) return result
+      
+      // Keep the path of stored objects current (array mutators move elements)
+      if (!shallow && shouldProxy(rawValue)) {
+        linkChild(rawValue, target, key)
+      }
+      
+      const changed: unknown[] = []
+      
+      // Only notify the key if value actually changed (or it was added)
+      if (!hadKey || !Object.is(oldValue, rawValue)) {
+        changed.push(key)
+        mutations.push({ type: 'set', target, key, value: rawValue, oldValue, hadKey })
+      }
+      
+      // Adding a key changes iteration
+      if (!hadKey) {
+        changed.push(KEYS_KEY)
+      }
+      
+      // Array length changes, either implicitly (index past the end)
+      // or explicitly (truncation drops the removed indices)
+      if (Array.isArray(target) && target.length !== oldLength) {
+        if (key !== 'length') {
+          changed.push('length')
+          mutations.push({ type: 'set', target, key: 'length', value: target.length, oldValue: oldLength, hadKey: true })
+        }
+        if (hadKey) changed.push(KEYS_KEY)
+        
+        for (let index = target.length; index < oldLength; index++) {
+          changed.push(String(index))
+        }
+      }
+      
+      if (changed.length > 0) {
+        notifyKeys(target, changed, mutations)
       }
       
       return result
     },
     
     deleteProperty(target, key) {
-      const hadKey = Reflect.has(target, key)
+      const hadKey = Object.prototype.hasOwnProperty.call(target, key)
+      const oldValue = Reflect.get(target, key)
       const result = Reflect.deleteProperty(target, key)
       
       if (hadKey && result) {
-        const subscribers = getPropertySubscribers(target, key)
-        notifySubscribers(subscribers)
+        notifyKeys(target, [key, KEYS_KEY], [{ type: 'delete', target, key, oldValue, hadKey }])
       }
       
       return result
@@ -151,7 +501,7 @@ function createReactiveProxy<T extends object>(target: T): T {
     
     ownKeys(target) {
       // Track a special 'keys' dependency for iteration
-      const subscribers = getPropertySubscribers(target, Symbol.for('zen:keys'))
+      const subscribers = getPropertySubscribers(target, KEYS_KEY)
       trackDependency(subscribers)
       
       return Reflect.ownKeys(target)
@@ -159,7 +509,322 @@ function createReactiveProxy<T extends object>(target: T): T {
   })
   
   // Cache the proxy
-  proxyCache.set(target, proxy)
+  return registerProxy(cache, reactiveProxies, target, proxy)
+}
+
+/**
+ * Describe the elements an array loses when its length is set
+ */
+function truncatedElements(target: unknown[], length: unknown): StateMutation[] {
+  const mutations: StateMutation[] = []
+  
+  if (typeof length !== 'number') return mutations
+  
+  for (let index = target.length - 1; index >= length; index--) {
+    if (Object.prototype.hasOwnProperty.call(target, index)) {
+      mutations.push({ type: 'delete', target, key: String(index), oldValue: target[index], hadKey: true })
+    }
+  }
+  
+  return mutations
+}
+
+/**
+ * Get the batched, untracked wrapper for a mutating array method
+ * 
+ * Called with the proxy as `this`, so every intermediate write still goes
+ * through the `set`/`deleteProperty` traps.
+ */
+function getArrayMutator(method: string | symbol): Function {
+  const cached = wrappedMutators.get(method)
+  if (cached) return cached
+  
+  const native = (Array.prototype as unknown as Record<string | symbol, Function>)[method]!
+  
+  const mutator = function(this: unknown[], ...args: unknown[]) {
+    startBatch()
+    
+    try {
+      return runUntracked(() => native.apply(this, args))
+    } finally {
+      endBatch()
+    }
+  }
+  
+  wrappedMutators.set(method, mutator)
+  return mutator
+}
+
+/**
+ * Create a reactive proxy for a Map, Set, WeakMap or WeakSet
+ * 
+ * Collection methods read internal slots, so they cannot run against the
+ * proxy. Instead the `get` trap hands out instrumented methods bound to
+ * the raw collection that track per key, `size` and iteration. Keys and
+ * values are unwrapped to their raw objects before use.
+ */
+function createCollectionProxy<T extends Collection>(target: T, shallow: boolean): T {
+  const map = target as Map<unknown, unknown>
+  const set = target as Set<unknown>
+  const isMapLike = target instanceof Map || target instanceof WeakMap
+  const wrap = shallow ? <V>(value: V) => value : toReactive
+  
+  const track = (key: unknown) => trackDependency(getPropertySubscribers(target, key))
+  
+  // Wrap a stored value, remembering where it lives for mutation paths
+  const wrapValue = (value: unknown, key: unknown) => {
+    if (shallow || !shouldProxy(value)) return value
+    linkChild(value, target, key)
+    return createReactiveProxy(value)
+  }
+  
+  const methods: Record<string | symbol, Function> = {
+    get(key: unknown) {
+      key = toRaw(key)
+      track(key)
+      return wrapValue(map.get(key), key)
+    },
+    
+    has(key: unknown) {
+      key = toRaw(key)
+      track(key)
+      return map.has(key)
+    },
+    
+    set(key: unknown, value: unknown) {
+      key = toRaw(key)
+      value = toRaw(value)
+      const hadKey = map.has(key)
+      const oldValue = map.get(key)
+      map.set(key, value)
+      
+      if (!shallow && shouldProxy(value)) {
+        linkChild(value, target, key)
+      }
+      
+      const mutation: StateMutation = { type: 'set', target, key, value, oldValue, hadKey }
+      
+      if (!hadKey) {
+        notifyKeys(target, [key, KEYS_KEY, ITERATE_KEY], [mutation])
+      } else if (!Object.is(oldValue, value)) {
+        notifyKeys(target, [key, ITERATE_KEY], [mutation])
+      }
+      
+      return proxy
+    },
+    
+    add(value: unknown) {
+      value = toRaw(value)
+      if (!set.has(value)) {
+        set.add(value)
+        if (!shallow && shouldProxy(value)) linkChild(value, target, value)
+        notifyKeys(target, [value, KEYS_KEY, ITERATE_KEY], [{ type: 'set', target, key: value, value, hadKey: false }])
+      }
+      
+      return proxy
+    },
+    
+    delete(key: unknown) {
+      key = toRaw(key)
+      const hadKey = map.has(key)
+      const oldValue = target instanceof Set || target instanceof WeakSet ? key : map.get(key)
+      const result = map.delete(key)
+      
+      if (hadKey) {
+        notifyKeys(target, [key, KEYS_KEY, ITERATE_KEY], [{ type: 'delete', target, key, oldValue, hadKey }])
+      }
+      
+      return result
+    },
+    
+    clear() {
+      if (set.size === 0) return
+      
+      const keys = [...set.keys()]
+      const mutations: StateMutation[] = []
+      map.forEach((oldValue, key) => {
+        mutations.push({ type: 'delete', target, key, oldValue, hadKey: true })
+      })
+      
+      set.clear()
+      notifyKeys(target, [...keys, KEYS_KEY, ITERATE_KEY], mutations)
+    },
+    
+    forEach(callback: (value: unknown, key: unknown, collection: unknown) => void, thisArg?: unknown) {
+      track(ITERATE_KEY)
+      map.forEach((value, key) => {
+        callback.call(thisArg, wrapValue(value, key), wrap(key), proxy)
+      })
+    },
+    
+    keys() {
+      track(isMapLike ? KEYS_KEY : ITERATE_KEY)
+      return wrapIterator(map.keys(), wrap)
+    },
+    
+    values() {
+      track(ITERATE_KEY)
+      return wrapIterator(map.entries(), ([key, value]: [unknown, unknown]) => wrapValue(value, key))
+    },
+    
+    entries() {
+      track(ITERATE_KEY)
+      return wrapIterator(map.entries(), ([key, value]: [unknown, unknown]) => [wrap(key), wrapValue(value, key)])
+    },
+    
+    [Symbol.iterator]() {
+      return isMapLike ? methods.entries!() : methods.values!()
+    }
+  }
+  
+  const proxy: T = new Proxy(target, {
+    get(target, key) {
+      if (key === 'size') {
+        track(KEYS_KEY)
+        return Reflect.get(target, key, target)
+      }
+      
+      if (Object.prototype.hasOwnProperty.call(methods, key) && key in target) {
+        return methods[key]
+      }
+      
+      const value = Reflect.get(target, key, target)
+      return typeof value === 'function' ? value.bind(target) : value
+    }
+  })
+  
+  return proxy
+}
+
+/**
+ * Wrap a collection iterator, mapping each yielded value
+ */
+function wrapIterator<T, U>(source: Iterator<T>, map: (value: T) => U): IterableIterator<U> {
+  return {
+    next() {
+      const result = source.next()
+      return result.done ? result : { value: map(result.value), done: false }
+    },
+    [Symbol.iterator]() {
+      return this
+    }
+  }
+}
+
+/**
+ * Collection methods that mutate
+ */
+const collectionMutators = new Set<string | symbol>(['set', 'add', 'delete', 'clear'])
+
+/**
+ * Wrap a value read through a read-only view
+ */
+function toReadonly<T>(value: T): T {
+  return shouldProxy(value) ? createReadonlyProxy(value) : value
+}
+
+/**
+ * Warn about a write through a read-only view
+ */
+function warnReadonly(key: unknown): void {
+  console.warn(`[Zenith] Cannot modify "${String(key)}": state is readonly`)
+}
+
+/**
+ * Create a deep read-only proxy
+ * 
+ * The target may be a plain object or a reactive proxy; in the latter case
+ * reads go through the reactive proxy and are still tracked.
+ */
+function createReadonlyProxy<T extends object>(target: T): T {
+  if (readonlyProxies.has(target)) {
+    return target
+  }
+  
+  const cached = readonlyCache.get(target)
+  if (cached) {
+    return cached as T
+  }
+  
+  if (isCollection(toRaw(target))) {
+    return registerProxy(readonlyCache, readonlyProxies, target, createReadonlyCollectionProxy(target as T & Collection))
+  }
+  
+  const proxy = new Proxy(target, {
+    get(target, key, receiver) {
+      return toReadonly(Reflect.get(target, key, receiver))
+    },
+    
+    set(_target, key) {
+      warnReadonly(key)
+      return true
+    },
+    
+    deleteProperty(_target, key) {
+      warnReadonly(key)
+      return true
+    },
+    
+    defineProperty(_target, key) {
+      warnReadonly(key)
+      return true
+    }
+  })
+  
+  return registerProxy(readonlyCache, readonlyProxies, target, proxy)
+}
+
+/**
+ * Create a read-only proxy for a collection
+ */
+function createReadonlyCollectionProxy<T extends Collection>(target: T): T {
+  const map = target as Map<unknown, unknown>
+  
+  const methods: Record<string | symbol, Function> = {
+    get(key: unknown) {
+      return toReadonly(map.get(key))
+    },
+    
+    forEach(callback: (value: unknown, key: unknown, collection: unknown) => void, thisArg?: unknown) {
+      map.forEach((value, key) => {
+        callback.call(thisArg, toReadonly(value), toReadonly(key), proxy)
+      })
+    },
+    
+    keys() {
+      return wrapIterator(map.keys(), toReadonly)
+    },
+    
+    values() {
+      return wrapIterator(map.values(), toReadonly)
+    },
+    
+    entries() {
+      return wrapIterator(map.entries(), ([key, value]: [unknown, unknown]) => [toReadonly(key), toReadonly(value)])
+    },
+    
+    [Symbol.iterator]() {
+      return wrapIterator(map[Symbol.iterator](), toReadonly)
+    }
+  }
+  
+  const proxy: T = new Proxy(target, {
+    get(target, key) {
+      if (collectionMutators.has(key)) {
+        return () => {
+          warnReadonly(key)
+          return key === 'delete' ? false : proxy
+        }
+      }
+      
+      if (Object.prototype.hasOwnProperty.call(methods, key) && key in target) {
+        return methods[key]
+      }
+      
+      const value = Reflect.get(target, key, target)
+      return typeof value === 'function' ? value.bind(target) : value
+    }
+  })
   
   return proxy
 }
@@ -171,10 +836,203 @@ function createReactiveProxy<T extends object>(target: T): T {
  * @returns A reactive proxy of the object
  */
 export function zenState<T extends object>(initialValue: T): T {
+  if (rawObjects.has(initialValue)) {
+    return initialValue
+  }
+  
   if (!shouldProxy(initialValue)) {
-    throw new Error('zenState requires a plain object or array')
+    throw new Error('zenState requires an object, array or keyed collection')
   }
   
   return createReactiveProxy(initialValue)
 }
 
+/**
+ * Create a shallowly reactive state object
+ * 
+ * Only top-level properties are tracked; nested objects are returned
+ * as-is, without a reactive proxy.
+ * 
+ * @param initialValue - The initial state object
+ * @returns A shallow reactive proxy of the object
+ */
+export function shallowState<T extends object>(initialValue: T): T {
+  if (!shouldProxy(initialValue)) {
+    throw new Error('shallowState requires an object, array or keyed collection')
+  }
+  
+  return createReactiveProxy(toRaw(initialValue), true)
+}
+
+/**
+ * Create a deep read-only view of an object or state
+ * 
+ * Writes are ignored with a warning. A view of a reactive state still
+ * tracks reads and reflects mutations made through the original.
+ * 
+ * @param value - The object or reactive state to wrap
+ * @returns A read-only proxy
+ */
+export function readonly<T extends object>(value: T): DeepReadonly<T> {
+  if (!shouldProxy(value)) {
+    throw new Error('readonly requires an object, array or keyed collection')
+  }
+  
+  return createReadonlyProxy(value) as DeepReadonly<T>
+}
+
+/**
+ * Get the raw object behind a reactive or read-only proxy
+ * 
+ * Returns the value unchanged if it is not a proxy.
+ * 
+ * @param value - A proxy or any value
+ * @returns The underlying raw object
+ */
+export function toRaw<T>(value: T): T {
+  const target = value !== null && typeof value === 'object'
+    ? proxyTargets.get(value)
+    : undefined
+  
+  return target ? toRaw(target as T) : value
+}
+
+/**
+ * Opt an object out of proxying
+ * 
+ * Marked objects (e.g. third-party class instances) are stored and
+ * returned as-is by reactive state and never tracked.
+ * 
+ * @param value - The object to mark
+ * @returns The same object
+ */
+export function markRaw<T extends object>(value: T): T {
+  rawObjects.add(value)
+  return value
+}
+
+/**
+ * Check whether a value is a reactive state proxy
+ * (or a read-only view of one)
+ */
+export function isReactive(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return false
+  
+  if (readonlyProxies.has(value)) {
+    return isReactive(proxyTargets.get(value))
+  }
+  
+  return reactiveProxies.has(value)
+}
+
+/**
+ * Check whether a value is a read-only view
+ */
+export function isReadonly(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && readonlyProxies.has(value)
+}
+
+/**
+ * Observe every mutation made inside a reactive state object
+ * 
+ * The listener receives each mutation with the path of the mutated object
+ * relative to the state, and runs inside the batch of the mutation, before
+ * effects are notified.
+ * 
+ * @internal Used by history and patches
+ * @param state - The reactive state to observe
+ * @param listener - Called for every mutation
+ * @returns Stop observing
+ */
+export function observeMutations(state: object, listener: MutationListener): () => void {
+  const observer = { root: toRaw(state), listener }
+  mutationObservers.add(observer)
+  
+  return () => {
+    mutationObservers.delete(observer)
+  }
+}
+
+/**
+ * Deep copy plain objects, arrays, Maps and Sets
+ * 
+ * Other objects (class instances, dates, raw-marked objects) are shared.
+ * 
+ * @internal
+ */
+export function cloneDeep<T>(value: T, seen = new Map<object, unknown>()): T {
+  if (value === null || typeof value !== 'object') return value
+  
+  const cached = seen.get(value)
+  if (cached) return cached as T
+  
+  if (Array.isArray(value)) {
+    const copy: unknown[] = []
+    seen.set(value, copy)
+    value.forEach((item, index) => {
+      copy[index] = cloneDeep(item, seen)
+    })
+    return copy as T
+  }
+  
+  if (value instanceof Map) {
+    const copy = new Map()
+    seen.set(value, copy)
+    value.forEach((item, key) => copy.set(key, cloneDeep(item, seen)))
+    return copy as T
+  }
+  
+  if (value instanceof Set) {
+    const copy = new Set()
+    seen.set(value, copy)
+    value.forEach(item => copy.add(cloneDeep(item, seen)))
+    return copy as T
+  }
+  
+  const proto = Object.getPrototypeOf(value)
+  if (proto !== Object.prototype && proto !== null) return value
+  
+  const copy: Record<string, unknown> = Object.create(proto)
+  seen.set(value, copy)
+  for (const key of Object.keys(value)) {
+    copy[key] = cloneDeep((value as Record<string, unknown>)[key], seen)
+  }
+  return copy as T
+}
+
+/**
+ * Replace the contents of a reactive state with (copies of) a snapshot
+ * 
+ * @internal
+ */
+export function replaceContents(state: object, snapshot: object): void {
+  if (state instanceof Map) {
+    state.clear()
+    ;(snapshot as Map<unknown, unknown>).forEach((value, key) => state.set(key, cloneDeep(value)))
+    return
+  }
+  
+  if (state instanceof Set) {
+    state.clear()
+    ;(snapshot as Set<unknown>).forEach(value => state.add(cloneDeep(value)))
+    return
+  }
+  
+  const target = state as Record<string, unknown>
+  const source = snapshot as Record<string, unknown>
+  
+  if (Array.isArray(target)) {
+    target.length = (source as unknown as unknown[]).length
+  } else {
+    for (const key of Object.keys(target)) {
+      if (!Object.prototype.hasOwnProperty.call(source, key)) {
+        delete target[key]
+      }
+    }
+  }
+  
+  for (const key of Object.keys(source)) {
+    target[key] = cloneDeep(source[key])
+  }
+}
+
@@ -0,0 +1,253 @@
+/**
+ * Zenith Watch - Explicit Source Watcher
+ * 
+ * A watcher reacts to explicit sources only. The callback receives the new
+ * and previous value and runs untracked, so reading other reactive values
+ * inside it never subscribes the watcher to them.
+ * 
+ * Features:
+ * - Watch a signal, memo, getter, reactive state object or an array of them
+ * - New and previous values in the callback
+ * - `onCleanup` for the previous callback run (e.g. cancel a request)
+ * - `immediate` to run the callback on creation
+ * - `deep` to react to any nested change in a `zenState` object (the
+ *   default for state objects, also as entries of a source array)
+ * - `once` to stop after the first callback run
+ * - Stopped together with the owner scope it was created in
+ * 
+ * @example
+ * ```ts
+ * const query = zenSignal('')
+ * 
+ * zenWatch(query, (next, prev, onCleanup) => {
+ *   const controller = new AbortController()
+ *   onCleanup(() => controller.abort())
+ *   search(next, controller.signal)
+ * })
+ * 
+ * // Several sources
+ * zenWatch([firstName, lastName], ([first, last]) => {
+ *   console.log(`${first} ${last}`)
+ * })
+ * 
+ * // Any nested change of a state object
+ * const settings = zenState({ theme: { color: 'dark' } })
+ * zenWatch(settings, value => save(value), { deep: true })
+ * ```
+ */
+
+import { zenEffect, type DisposeFn } from './zen-effect'
+import { zenUntrack } from './zen-untrack'
+import { isReactive } from './zen-state'
+import { onCleanup } from './owner'
+
+/**
+ * A watch source - a signal, memo or getter function
+ */
+export type WatchSource<T> = () => T
+
+/**
+ * Register a cleanup for the current callback run
+ */
+export type WatchCleanup = (fn: () => void) => void
+
+/**
+ * Watch callback - receives the new and previous value
+ */
+export type WatchCallback<V, OV> = (value: V, oldValue: OV, onCleanup: WatchCleanup) => void
+
+/**
+ * Watch options
+ */
+export interface WatchOptions {
+  /** Run the callback immediately with the current value */
+  immediate?: boolean
+  /**
+   * Track every nested property of the watched value (default for state
+   * objects, including state objects in a source array)
+   */
+  deep?: boolean
+  /** Stop watching after the callback has run once */
+  once?: boolean
+}
+
+/**
+ * Values of a list of watch sources
+ */
+export type WatchSourceValues<T> = {
+  [K in keyof T]: T[K] extends WatchSource<infer V> ? V : T[K]
+}
+
+/**
+ * Watch a signal, memo or getter
+ * 
+ * @param source - The source to watch
+ * @param callback - Called with the new and previous value
+ * @param options - Watch options
+ * @returns A function that stops watching
+ */
+export function zenWatch<T>(
+  source: WatchSource<T>,
+  callback: WatchCallback<T, T | undefined>,
+  options?: WatchOptions
+): DisposeFn
+/**
+ * Watch several sources at once
+ * 
+ * @param sources - The sources to watch
+ * @param callback - Called with the new and previous values
+ * @param options - Watch options
+ * @returns A function that stops watching
+ */
+export function zenWatch<T extends readonly (WatchSource<unknown> | object)[]>(
+  sources: readonly [...T],
+  callback: WatchCallback<WatchSourceValues<T>, Partial<WatchSourceValues<T>>>,
+  options?: WatchOptions
+): DisposeFn
+/**
+ * Watch a reactive state object (deep by default)
+ * 
+ * @param source - The state object to watch
+ * @param callback - Called with the state object
+ * @param options - Watch options
+ * @returns A function that stops watching
+ */
+export function zenWatch<T extends object>(
+  source: T,
+  callback: WatchCallback<T, T | undefined>,
+  options?: WatchOptions
+): DisposeFn
+export function zenWatch<V, OV>(
+  source: unknown,
+  callback: WatchCallback<V, OV>,
+  options: WatchOptions = {}
+): DisposeFn {
+  const isMulti = Array.isArray(source) && !isReactive(source)
+  const deep = options.deep ?? (!isMulti && isReactive(source))
+  
+  // State objects in a source array are watched deeply too, unless
+  // `deep` is set explicitly
+  const deepEntries = isMulti && options.deep === undefined && (source as unknown[]).some(isReactive)
+  
+  const getter = isMulti
+    ? () => (source as unknown[]).map(readSource)
+    : () => readSource(source)
+  
+  let oldValue: unknown = isMulti ? (source as unknown[]).map(() => undefined) : undefined
+  let initialized = false
+  let stopped = false
+  let cleanup: (() => void) | null = null
+  
+  const runCleanup = () => {
+    if (cleanup) {
+      const fn = cleanup
+      cleanup = null
+      fn()
+    }
+  }
+  
+  const registerCleanup: WatchCleanup = fn => {
+    cleanup = fn
+  }
+  
+  let stopEffect: DisposeFn | null = null
+  
+  stopEffect = zenEffect(() => {
+    const value = getter()
+    
+    // Subscribe to every nested property
+    if (deep) {
+      traverse(value)
+    } else if (deepEntries) {
+      for (const item of value as unknown[]) {
+        if (isReactive(item)) traverse(item)
+      }
+    }
+    
+    if (stopped) return
+    
+    zenUntrack(() => {
+      if (!initialized) {
+        initialized = true
+        
+        if (!options.immediate) {
+          oldValue = value
+          return
+        }
+      } else if (!deep && !deepEntries && !hasChanged(value, oldValue, isMulti)) {
+        return
+      }
+      
+      runCleanup()
+      
+      const previous = oldValue
+      oldValue = value
+      // The overloads type the values for the given sources
+      callback(value as V, previous as OV, registerCleanup)
+      
+      if (options.once) stop()
+    })
+  })
+  
+  function stop(): void {
+    if (stopped) {
+      return
+    }
+    
+    stopped = true
+    runCleanup()
+    // Unassigned while the immediate run is in progress - the `stopped`
+    // flag keeps the effect inert until it is disposed below
+    stopEffect?.()
+  }
+  
+  if (stopped) stopEffect()
+  
+  // Stop together with the enclosing scope
+  onCleanup(stop)
+  
+  return stop
+}
+
+/**
+ * Read a single watch source
+ */
+function readSource(source: unknown): unknown {
+  return typeof source === 'function' ? (source as () => unknown)() : source
+}
+
+/**
+ * Compare a new value to the previous one (element-wise for multiple sources)
+ */
+function hasChanged(value: unknown, oldValue: unknown, isMulti: boolean): boolean {
+  if (!isMulti) return !Object.is(value, oldValue)
+  
+  const next = value as unknown[]
+  const prev = oldValue as unknown[]
+  return next.some((item, index) => !Object.is(item, prev[index]))
+}
+
+/**
+ * Read every nested property of a value, tracking each read
+ */
+function traverse(value: unknown, seen: Set<unknown> = new Set()): void {
+  if (value === null || typeof value !== 'object' || seen.has(value)) return
+  seen.add(value)
+  
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      traverse(value[i], seen)
+    }
+  } else if (value instanceof Map) {
+    value.forEach((item, key) => {
+      traverse(key, seen)
+      traverse(item, seen)
+    })
+  } else if (value instanceof Set) {
+    value.forEach(item => traverse(item, seen))
+  } else {
+    for (const key of Object.keys(value)) {
+      traverse((value as Record<string, unknown>)[key], seen)
+    }
+  }
+}
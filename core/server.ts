@@ -0,0 +1,4 @@
+export {
+  enableAsyncRuntimeContext,
+  disableAsyncRuntimeContext
+} from './reactivity/runtime-server';
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  createComponentLifecycle,
+  runInComponent,
+  mountComponent,
+  unmountComponent,
+  onMount,
+  onUnmount,
+  getIsMounted,
+  type ComponentLifecycle
+} from '../../core/lifecycle'
+import { zenSignal, zenEffect } from '../../core/reactivity'
+
+/**
+ * Create a component logging its lifecycle
+ */
+function component(log: string[], name: string, body?: () => void): ComponentLifecycle {
+  const lifecycle = createComponentLifecycle()
+  
+  runInComponent(lifecycle, () => {
+    onMount(() => {
+      log.push(`mount ${name}`)
+      return () => log.push(`cleanup ${name}`)
+    })
+    onUnmount(() => log.push(`unmount ${name}`))
+    body?.()
+  })
+  
+  return lifecycle
+}
+
+describe('component lifecycles', () => {
+  test('children mount before their parent and unmount first', () => {
+    const log: string[] = []
+    const page = component(log, 'page', () => {
+      component(log, 'child', () => component(log, 'grandchild'))
+    })
+    
+    mountComponent(page)
+    expect(log.splice(0)).toEqual(['mount grandchild', 'mount child', 'mount page'])
+    
+    unmountComponent(page)
+    expect(log).toEqual([
+      'unmount grandchild',
+      'cleanup grandchild',
+      'unmount child',
+      'cleanup child',
+      'unmount page',
+      'cleanup page'
+    ])
+  })
+  
+  test('unmounting a component leaves its siblings mounted', () => {
+    const log: string[] = []
+    const first = component(log, 'first')
+    const second = component(log, 'second')
+    
+    mountComponent(first)
+    mountComponent(second)
+    log.length = 0
+    
+    unmountComponent(first)
+    expect(log).toEqual(['unmount first', 'cleanup first'])
+    expect(second.mounted).toBe(true)
+    
+    unmountComponent(second)
+  })
+  
+  test('hooks registered after mount run immediately', () => {
+    const log: string[] = []
+    const page = component(log, 'page')
+    mountComponent(page)
+    
+    runInComponent(page, () => {
+      expect(getIsMounted()).toBe(true)
+      onMount(() => {
+        log.push('late')
+      })
+    })
+    
+    expect(log).toEqual(['mount page', 'late'])
+    unmountComponent(page)
+  })
+  
+  test('effects of a component stop when it unmounts', () => {
+    const log: string[] = []
+    const count = zenSignal(0)
+    const page = component(log, 'page', () => {
+      zenEffect(() => {
+        log.push(`effect ${count()}`)
+      })
+    })
+    
+    mountComponent(page)
+    unmountComponent(page)
+    count(1)
+    
+    expect(log.filter(entry => entry.startsWith('effect'))).toEqual(['effect 0'])
+  })
+  
+  test('components rendered by an effect unmount when it re-runs', () => {
+    const log: string[] = []
+    const version = zenSignal(1)
+    
+    const page = component(log, 'page', () => {
+      zenEffect(() => {
+        const child = component(log, `child ${version()}`)
+        mountComponent(child)
+      })
+    })
+    
+    mountComponent(page)
+    log.length = 0
+    
+    version(2)
+    expect(log).toEqual(['unmount child 1', 'cleanup child 1', 'mount child 2'])
+    
+    unmountComponent(page)
+  })
+})
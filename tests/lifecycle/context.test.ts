@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  createComponentLifecycle,
+  runInComponent,
+  unmountComponent,
+  createContext,
+  provide,
+  inject
+} from '../../core/lifecycle'
+import { zenSignal, zenEffect, createRoot, type ReadonlySignal } from '../../core/reactivity'
+
+describe('context', () => {
+  test('injects the default without a provider', () => {
+    const Theme = createContext('light')
+    expect(createRoot(() => inject(Theme))).toBe('light')
+  })
+  
+  test('injects the value of the nearest provider', () => {
+    const Theme = createContext('light')
+    const seen: string[] = []
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      provide(Theme, 'dark')
+      
+      const child = createComponentLifecycle()
+      runInComponent(child, () => {
+        seen.push(inject(Theme))
+        
+        const grandchild = createComponentLifecycle()
+        runInComponent(grandchild, () => {
+          provide(Theme, 'blue')
+          seen.push(inject(Theme))
+        })
+        
+        seen.push(inject(Theme))
+      })
+    })
+    
+    const sibling = createComponentLifecycle()
+    runInComponent(sibling, () => seen.push(inject(Theme)))
+    
+    expect(seen).toEqual(['dark', 'blue', 'dark', 'light'])
+    unmountComponent(page)
+    unmountComponent(sibling)
+  })
+  
+  test('provided signals stay reactive', () => {
+    const Count = createContext<ReadonlySignal<number> | null>(null)
+    const count = zenSignal(1)
+    const seen: number[] = []
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      provide(Count, count.asReadonly())
+      
+      const child = createComponentLifecycle()
+      runInComponent(child, () => {
+        const injected = inject(Count)!
+        zenEffect(() => {
+          seen.push(injected())
+        })
+      })
+    })
+    
+    count(2)
+    expect(seen).toEqual([1, 2])
+    unmountComponent(page)
+  })
+  
+  test('values provided in an effect are withdrawn when it re-runs', () => {
+    const Mode = createContext('none')
+    const enabled = zenSignal(true)
+    const seen: string[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        if (enabled()) provide(Mode, 'on')
+        seen.push(inject(Mode))
+      })
+      return dispose
+    })
+    
+    enabled(false)
+    expect(seen).toEqual(['on', 'none'])
+    dispose()
+  })
+})
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import {
+  createComponentLifecycle,
+  runInComponent,
+  mountComponent,
+  unmountComponent,
+  onMount,
+  onUnmount,
+  onBeforeUnmount,
+  onUpdate,
+  onErrorCaptured
+} from '../../core/lifecycle'
+import { zenSignal, zenEffect } from '../../core/reactivity'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10))
+
+describe('lifecycle hooks', () => {
+  const rejections: unknown[] = []
+  const onRejection = (reason: unknown) => {
+    rejections.push(reason)
+  }
+  
+  beforeEach(() => {
+    rejections.length = 0
+    process.on('unhandledRejection', onRejection)
+  })
+  
+  afterEach(() => {
+    process.off('unhandledRejection', onRejection)
+  })
+  
+  test('before-unmount callbacks run parents first, before any unmount', () => {
+    const log: string[] = []
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      onBeforeUnmount(() => log.push('before page'))
+      onUnmount(() => log.push('unmount page'))
+      
+      const child = createComponentLifecycle()
+      runInComponent(child, () => {
+        onBeforeUnmount(() => log.push('before child'))
+        onUnmount(() => log.push('unmount child'))
+      })
+    })
+    
+    mountComponent(page)
+    unmountComponent(page)
+    
+    expect(log).toEqual(['before page', 'before child', 'unmount child', 'unmount page'])
+  })
+  
+  test('update callbacks run after flushes while mounted', () => {
+    const count = zenSignal(0)
+    const log: string[] = []
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      zenEffect(() => {
+        log.push(`render ${count()}`)
+      })
+      onUpdate(() => log.push(`updated ${count()}`))
+    })
+    
+    count(1)
+    mountComponent(page)
+    count(2)
+    unmountComponent(page)
+    count(3)
+    
+    expect(log).toEqual(['render 0', 'render 1', 'render 2', 'updated 2'])
+  })
+  
+  test('async mount callbacks are aborted on unmount', async () => {
+    let signal: AbortSignal | null = null
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      onMount(async context => {
+        signal = context.signal
+        await new Promise((_, reject) => {
+          context.signal.addEventListener('abort', () => reject(context.signal.reason))
+        })
+      })
+    })
+    
+    mountComponent(page)
+    expect(signal!.aborted).toBe(false)
+    
+    unmountComponent(page)
+    await tick()
+    
+    expect(signal!.aborted).toBe(true)
+    expect(rejections).toEqual([])
+  })
+  
+  test('cleanups of async mount callbacks resolving after unmount run immediately', async () => {
+    const log: string[] = []
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      onMount(async () => {
+        await null
+        return () => log.push('cleanup')
+      })
+    })
+    
+    mountComponent(page)
+    unmountComponent(page)
+    await tick()
+    
+    expect(log).toEqual(['cleanup'])
+  })
+  
+  test('errors in mount callbacks reach the error boundary', async () => {
+    const captured: string[] = []
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      onErrorCaptured(error => {
+        captured.push((error as Error).message)
+        return false
+      })
+      
+      const child = createComponentLifecycle()
+      runInComponent(child, () => {
+        onMount(() => {
+          throw new Error('sync')
+        })
+        onMount(async () => {
+          throw new Error('async')
+        })
+      })
+    })
+    
+    mountComponent(page)
+    await tick()
+    
+    expect(captured).toEqual(['sync', 'async'])
+    expect(rejections).toEqual([])
+    unmountComponent(page)
+  })
+  
+  test('unhandled errors are logged, not rejected', async () => {
+    const logged = spyOn(console, 'error').mockImplementation(() => {})
+    const page = createComponentLifecycle()
+    
+    runInComponent(page, () => {
+      onErrorCaptured(() => {
+        // Not handled - propagates
+      })
+      onMount(async () => {
+        throw new Error('nobody')
+      })
+    })
+    
+    mountComponent(page)
+    await tick()
+    
+    expect(logged).toHaveBeenCalledTimes(1)
+    expect(rejections).toEqual([])
+    
+    logged.mockRestore()
+    unmountComponent(page)
+  })
+})
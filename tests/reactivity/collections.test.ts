@@ -0,0 +1,170 @@
+import { describe, expect, test } from 'bun:test'
+import { zenState, zenEffect, createRoot, isReactive } from '../../core/reactivity'
+
+/**
+ * Run an effect in its own scope, recording what it returns on each run
+ */
+function record<T>(read: () => T) {
+  const runs: T[] = []
+  const dispose = createRoot(dispose => {
+    zenEffect(() => {
+      runs.push(read())
+    })
+    return dispose
+  })
+  return { runs, dispose }
+}
+
+describe('reactive Map', () => {
+  test('get tracks only the read key', () => {
+    const state = zenState({ scores: new Map([['a', 1], ['b', 2]]) })
+    const { runs, dispose } = record(() => state.scores.get('a'))
+    
+    state.scores.set('b', 20)
+    state.scores.set('c', 3)
+    state.scores.set('a', 1)
+    expect(runs).toEqual([1])
+    
+    state.scores.set('a', 10)
+    state.scores.delete('a')
+    expect(runs).toEqual([1, 10, undefined])
+    
+    dispose()
+  })
+  
+  test('has re-runs when the key is added or deleted', () => {
+    const state = zenState({ flags: new Map<string, boolean>() })
+    const { runs, dispose } = record(() => state.flags.has('dark'))
+    
+    state.flags.set('other', true)
+    state.flags.set('dark', false)
+    state.flags.delete('dark')
+    
+    expect(runs).toEqual([false, true, false])
+    dispose()
+  })
+  
+  test('size re-runs on structural changes only', () => {
+    const state = zenState({ scores: new Map([['a', 1]]) })
+    const { runs, dispose } = record(() => state.scores.size)
+    
+    state.scores.set('a', 2)
+    state.scores.set('b', 1)
+    state.scores.delete('a')
+    state.scores.clear()
+    
+    expect(runs).toEqual([1, 2, 1, 0])
+    dispose()
+  })
+  
+  test('keys re-run on structural changes, entries on value changes', () => {
+    const state = zenState({ scores: new Map([['a', 1]]) })
+    const keys = record(() => [...state.scores.keys()])
+    const entries = record(() => [...state.scores])
+    
+    state.scores.set('a', 2)
+    state.scores.set('b', 3)
+    
+    expect(keys.runs).toEqual([['a'], ['a', 'b']])
+    expect(entries.runs).toEqual([[['a', 1]], [['a', 2]], [['a', 2], ['b', 3]]])
+    
+    keys.dispose()
+    entries.dispose()
+  })
+  
+  test('forEach tracks iteration', () => {
+    const state = zenState({ scores: new Map([['a', 1]]) })
+    const { runs, dispose } = record(() => {
+      let total = 0
+      state.scores.forEach(value => {
+        total += value
+      })
+      return total
+    })
+    
+    state.scores.set('b', 2)
+    state.scores.set('a', 5)
+    
+    expect(runs).toEqual([1, 3, 7])
+    dispose()
+  })
+  
+  test('values are proxied deeply', () => {
+    const state = zenState({ users: new Map([['ada', { visits: 0 }]]) })
+    const user = state.users.get('ada')!
+    const { runs, dispose } = record(() => state.users.get('ada')!.visits)
+    
+    expect(isReactive(user)).toBe(true)
+    
+    user.visits++
+    expect(runs).toEqual([0, 1])
+    
+    dispose()
+  })
+  
+  test('values added later are proxied as well', () => {
+    const state = zenState({ users: new Map<string, { visits: number }>() })
+    const { runs, dispose } = record(() => [...state.users.values()].map(user => user.visits))
+    
+    state.users.set('ada', { visits: 0 })
+    state.users.get('ada')!.visits = 2
+    
+    expect(runs).toEqual([[], [0], [2]])
+    dispose()
+  })
+})
+
+describe('reactive Set', () => {
+  test('has tracks the value', () => {
+    const state = zenState({ tags: new Set(['a']) })
+    const { runs, dispose } = record(() => state.tags.has('b'))
+    
+    state.tags.add('c')
+    state.tags.add('b')
+    state.tags.delete('b')
+    
+    expect(runs).toEqual([false, true, false])
+    dispose()
+  })
+  
+  test('add, delete and clear notify iteration and size', () => {
+    const state = zenState({ tags: new Set(['a']) })
+    const values = record(() => [...state.tags])
+    const size = record(() => state.tags.size)
+    
+    state.tags.add('b')
+    state.tags.delete('a')
+    state.tags.clear()
+    
+    expect(values.runs).toEqual([['a'], ['a', 'b'], ['b'], []])
+    expect(size.runs).toEqual([1, 2, 1, 0])
+    
+    values.dispose()
+    size.dispose()
+  })
+  
+  test('no-op changes do not notify', () => {
+    const state = zenState({ tags: new Set(['a']) })
+    const { runs, dispose } = record(() => [...state.tags])
+    
+    state.tags.add('a')
+    state.tags.delete('missing')
+    state.tags.clear()
+    state.tags.clear()
+    
+    expect(runs).toEqual([['a'], []])
+    dispose()
+  })
+  
+  test('object members are proxied and unwrapped', () => {
+    const item = { done: false }
+    const state = zenState({ items: new Set([item]) })
+    const [member] = [...state.items]
+    
+    expect(isReactive(member)).toBe(true)
+    expect(state.items.has(member!)).toBe(true)
+    
+    state.items.delete(member!)
+    expect(state.items.size).toBe(0)
+  })
+})
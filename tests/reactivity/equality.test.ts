@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test'
+import { zenSignal, zenMemo, zenEffect, createRoot } from '../../core/reactivity'
+
+const sameItems = (a: number[], b: number[]) => a.length === b.length && a.every((v, i) => v === b[i])
+
+/**
+ * Run an effect in its own scope, recording what it returns on each run
+ */
+function record<T>(read: () => T) {
+  const runs: T[] = []
+  const dispose = createRoot(dispose => {
+    zenEffect(() => {
+      runs.push(read())
+    })
+    return dispose
+  })
+  return { runs, dispose }
+}
+
+describe('signal equality', () => {
+  test('writes of an equal value do not notify', () => {
+    const count = zenSignal(1)
+    const { runs, dispose } = record(() => count())
+    
+    count(1)
+    count(2)
+    
+    expect(runs).toEqual([1, 2])
+    dispose()
+  })
+  
+  test('a custom equality check decides whether to notify', () => {
+    const rows = zenSignal([1, 2], { equals: sameItems })
+    const { runs, dispose } = record(() => rows())
+    
+    rows([1, 2])
+    rows([1, 2, 3])
+    
+    expect(runs).toEqual([[1, 2], [1, 2, 3]])
+    dispose()
+  })
+  
+  test('equals: false notifies on every write', () => {
+    const tick = zenSignal(0, { equals: false })
+    const { runs, dispose } = record(() => tick())
+    
+    tick(0)
+    tick.value = 0
+    
+    expect(runs).toEqual([0, 0, 0])
+    dispose()
+  })
+})
+
+describe('update', () => {
+  test('writes a value derived from the current one', () => {
+    const count = zenSignal(1)
+    const { runs, dispose } = record(() => count())
+    
+    count.update(n => n + 1)
+    count.update(n => n * 10)
+    
+    expect(runs).toEqual([1, 2, 20])
+    dispose()
+  })
+  
+  test('does not track the read', () => {
+    const count = zenSignal(0)
+    const trigger = zenSignal(0)
+    let runs = 0
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        runs++
+        trigger()
+        count.update(n => n + 1)
+      })
+      return dispose
+    })
+    
+    count(10)
+    expect(runs).toBe(1)
+    
+    trigger(1)
+    expect(runs).toBe(2)
+    expect(count()).toBe(11)
+    dispose()
+  })
+  
+  test('respects the equality check', () => {
+    const rows = zenSignal([1], { equals: sameItems })
+    const { runs, dispose } = record(() => rows())
+    
+    rows.update(items => [...items])
+    
+    expect(runs).toHaveLength(1)
+    dispose()
+  })
+})
+
+describe('memo equality', () => {
+  test('a custom equality check stops propagation', () => {
+    const source = zenSignal([3, 1, 2])
+    const sorted = zenMemo(() => [...source()].sort(), { equals: sameItems })
+    const { runs, dispose } = record(() => sorted())
+    
+    source([2, 3, 1])
+    source([1, 2, 4])
+    
+    expect(runs).toEqual([[1, 2, 3], [1, 2, 4]])
+    dispose()
+  })
+  
+  test('equals: false notifies on every recomputation', () => {
+    const count = zenSignal(1)
+    const parity = zenMemo(() => count() % 2, { equals: false })
+    const { runs, dispose } = record(() => parity())
+    
+    count(3)
+    
+    expect(runs).toEqual([1, 1])
+    dispose()
+  })
+})
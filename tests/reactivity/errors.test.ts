@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'bun:test'
+import { zenSignal, zenEffect, zenMemo, createRoot, onError, catchError } from '../../core/reactivity'
+
+describe('error handlers', () => {
+  test('onError catches errors of effects in its scope', () => {
+    const count = zenSignal(0)
+    const caught: unknown[] = []
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      onError(error => caught.push((error as Error).message))
+      zenEffect(() => {
+        if (count() === 1) throw new Error('one')
+        seen.push(count())
+      })
+      return dispose
+    })
+    
+    count(1)
+    count(2)
+    
+    expect(caught).toEqual(['one'])
+    expect(seen).toEqual([0, 2])
+    dispose()
+  })
+  
+  test('catchError catches synchronous errors and returns undefined', () => {
+    const caught: unknown[] = []
+    
+    const result = createRoot(() => catchError(() => {
+      throw new Error('setup')
+    }, error => caught.push((error as Error).message)))
+    
+    expect(result).toBeUndefined()
+    expect(caught).toEqual(['setup'])
+  })
+  
+  test('a handler that throws passes its error to the next boundary', () => {
+    const count = zenSignal(0)
+    const log: string[] = []
+    
+    const dispose = createRoot(dispose => {
+      onError(error => log.push(`outer: ${(error as Error).message}`))
+      
+      catchError(() => {
+        zenEffect(() => {
+          if (count() === 1) throw new Error('effect')
+        })
+      }, error => {
+        log.push(`inner: ${(error as Error).message}`)
+        throw new Error('rethrown')
+      })
+      
+      return dispose
+    })
+    
+    count(1)
+    
+    expect(log).toEqual(['inner: effect', 'outer: rethrown'])
+    dispose()
+  })
+  
+  test('the nearest boundary wins', () => {
+    const log: string[] = []
+    
+    createRoot(dispose => {
+      onError(() => log.push('outer'))
+      catchError(() => {
+        zenEffect(() => {
+          throw new Error('effect')
+        })
+      }, () => log.push('inner'))
+      dispose()
+    })
+    
+    expect(log).toEqual(['inner'])
+  })
+  
+  test('errors without a handler are rethrown', () => {
+    const count = zenSignal(0)
+    
+    expect(() => createRoot(() => {
+      zenEffect(() => {
+        throw new Error('setup')
+      })
+    })).toThrow('setup')
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        if (count() === 1) throw new Error('update')
+      })
+      return dispose
+    })
+    
+    expect(() => count(1)).toThrow('update')
+    dispose()
+  })
+})
+
+describe('memo errors', () => {
+  test('a memo caches its error until a dependency changes', () => {
+    const divisor = zenSignal(0)
+    let computations = 0
+    
+    const ratio = zenMemo(() => {
+      computations++
+      if (divisor() === 0) throw new Error('division by zero')
+      return 10 / divisor()
+    })
+    
+    expect(() => ratio()).toThrow('division by zero')
+    expect(() => ratio()).toThrow('division by zero')
+    expect(computations).toBe(1)
+    
+    divisor(2)
+    expect(ratio()).toBe(5)
+    expect(computations).toBe(2)
+  })
+  
+  test('effects reading a failing memo reach the boundary and recover', () => {
+    const divisor = zenSignal(1)
+    const ratio = zenMemo(() => {
+      if (divisor() === 0) throw new Error('division by zero')
+      return 10 / divisor()
+    })
+    const caught: string[] = []
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      onError(error => caught.push((error as Error).message))
+      zenEffect(() => {
+        seen.push(ratio())
+      })
+      return dispose
+    })
+    
+    divisor(0)
+    divisor(5)
+    
+    expect(caught).toEqual(['division by zero'])
+    expect(seen).toEqual([10, 2])
+    dispose()
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test'
+import { zenState, zenHistory, toRaw } from '../../core/reactivity'
+
+const names = (items: { n: string }[]) => toRaw(items).map(item => item.n)
+
+describe('history on reordered arrays', () => {
+  test('records edits of an element held across unshift', () => {
+    const state = zenState({ items: [{ n: 'a' }, { n: 'b' }] })
+    const history = zenHistory(state)
+    
+    const b = state.items[1]!
+    state.items.unshift({ n: 'x' })
+    b.n = 'B'
+    
+    expect(names(state.items)).toEqual(['x', 'a', 'B'])
+    
+    history.undo()
+    expect(names(state.items)).toEqual(['x', 'a', 'b'])
+    
+    history.undo()
+    expect(names(state.items)).toEqual(['a', 'b'])
+    
+    history.redo()
+    history.redo()
+    expect(names(state.items)).toEqual(['x', 'a', 'B'])
+  })
+  
+  test('records edits of an element held across reverse and splice', () => {
+    const state = zenState({ items: [{ n: 'a' }, { n: 'b' }, { n: 'c' }] })
+    const history = zenHistory(state)
+    
+    const a = state.items[0]!
+    const c = state.items[2]!
+    
+    state.items.reverse()
+    a.n = 'A'
+    state.items.splice(0, 1)
+    state.items.push(c)
+    c.n = 'C'
+    
+    expect(names(state.items)).toEqual(['b', 'A', 'C'])
+    
+    history.undo()
+    expect(names(state.items)).toEqual(['b', 'A', 'c'])
+    
+    while (history.undo()) {
+      // Undo everything
+    }
+    expect(names(state.items)).toEqual(['a', 'b', 'c'])
+  })
+  
+  test('records edits of an element moved by sort', () => {
+    const state = zenState({ items: [{ n: 'c' }, { n: 'a' }, { n: 'b' }] })
+    const history = zenHistory(state)
+    
+    const first = state.items[0]!
+    state.items.sort((x, y) => x.n.localeCompare(y.n))
+    first.n = 'z'
+    
+    history.undo()
+    expect(names(state.items)).toEqual(['a', 'b', 'c'])
+  })
+})
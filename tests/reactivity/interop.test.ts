@@ -0,0 +1,362 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import {
+  zenSignal,
+  zenMemo,
+  createRoot,
+  onError,
+  from,
+  fromTC39Signal,
+  toTC39Signal,
+  type Observer,
+  type Observable,
+  type TC39SignalAPI,
+  type TC39Readable
+} from '../../core/reactivity'
+
+const observableKey = (Symbol as { observable?: symbol }).observable ?? '@@observable'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+/**
+ * Observable driven by hand
+ */
+function createSubject<T>() {
+  const observers = new Set<Observer<T>>()
+  
+  return {
+    observers,
+    subscribe(observer: Observer<T>) {
+      observers.add(observer)
+      return { unsubscribe: () => observers.delete(observer) }
+    },
+    next(value: T) {
+      for (const observer of observers) observer.next?.(value)
+    },
+    error(error: unknown) {
+      for (const observer of observers) observer.error?.(error)
+    }
+  }
+}
+
+/**
+ * Async iterable driven by hand
+ */
+function createChannel<T>() {
+  const pending: ((result: IteratorResult<T>) => void)[] = []
+  let returned = 0
+  
+  const iterator: AsyncIterator<T> = {
+    next: () => new Promise(resolve => pending.push(resolve)),
+    return: async () => {
+      returned++
+      return { value: undefined, done: true }
+    }
+  }
+  
+  return {
+    iterable: { [Symbol.asyncIterator]: () => iterator } as AsyncIterable<T>,
+    push(value: T) {
+      pending.shift()?.({ value, done: false })
+    },
+    get returned() {
+      return returned
+    }
+  }
+}
+
+/**
+ * Minimal stand-in for the TC39 Signal namespace
+ */
+function createSignalAPI(): TC39SignalAPI {
+  const watchers = new Set<{ watched: Set<unknown>, notify: () => void }>()
+  
+  class State<T> {
+    constructor(private value: T) {}
+    
+    get(): T {
+      return this.value
+    }
+    
+    set(value: T): void {
+      this.value = value
+      
+      for (const watcher of [...watchers]) {
+        if (watcher.watched.has(this)) watcher.notify()
+      }
+    }
+  }
+  
+  class Computed<T> {
+    constructor(private fn: () => T) {}
+    
+    get(): T {
+      return this.fn()
+    }
+  }
+  
+  class Watcher {
+    watched = new Set<unknown>()
+    
+    constructor(public notify: () => void) {
+      watchers.add(this)
+    }
+    
+    watch(...signals: TC39Readable<unknown>[]): void {
+      for (const signal of signals) this.watched.add(signal)
+    }
+    
+    unwatch(...signals: TC39Readable<unknown>[]): void {
+      for (const signal of signals) this.watched.delete(signal)
+    }
+  }
+  
+  return { State, Computed, subtle: { Watcher } }
+}
+
+describe('from an Observable', () => {
+  test('follows emitted values and unsubscribes with the scope', () => {
+    const subject = createSubject<number>()
+    
+    const [value, dispose] = createRoot(dispose => [from(subject, 0), dispose] as const)
+    expect(value()).toBe(0)
+    
+    subject.next(1)
+    subject.next(2)
+    expect(value()).toBe(2)
+    
+    dispose()
+    expect(subject.observers.size).toBe(0)
+  })
+  
+  test('uses the interop method of the source', () => {
+    const subject = createSubject<string>()
+    const source = { [observableKey]: () => subject } as unknown as Observable<string>
+    
+    const [value, dispose] = createRoot(dispose => [from(source), dispose] as const)
+    expect(value()).toBeUndefined()
+    
+    subject.next('a')
+    expect(value()).toBe('a')
+    
+    dispose()
+  })
+  
+  test('passes errors to the error handler of the scope', () => {
+    const subject = createSubject<number>()
+    const caught: unknown[] = []
+    
+    const dispose = createRoot(dispose => {
+      onError(error => caught.push(error))
+      from(subject)
+      return dispose
+    })
+    
+    subject.error('lost')
+    expect(caught).toEqual(['lost'])
+    
+    dispose()
+  })
+})
+
+describe('from an async iterable', () => {
+  const rejections: unknown[] = []
+  const onRejection = (reason: unknown) => {
+    rejections.push(reason)
+  }
+  
+  beforeEach(() => {
+    rejections.length = 0
+    process.on('unhandledRejection', onRejection)
+  })
+  
+  afterEach(() => {
+    process.off('unhandledRejection', onRejection)
+  })
+  
+  test('follows iterated values and returns the iterator with the scope', async () => {
+    const channel = createChannel<number>()
+    
+    const [value, dispose] = createRoot(dispose => [from(channel.iterable, 0), dispose] as const)
+    
+    channel.push(1)
+    await tick()
+    expect(value()).toBe(1)
+    
+    channel.push(2)
+    await tick()
+    expect(value()).toBe(2)
+    
+    dispose()
+    expect(channel.returned).toBe(1)
+  })
+  
+  test('passes rejections to the error handler of the scope', async () => {
+    const caught: unknown[] = []
+    const failing = {
+      [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(new Error('closed')) })
+    } as AsyncIterable<number>
+    
+    const dispose = createRoot(dispose => {
+      onError(error => caught.push(error))
+      from(failing)
+      return dispose
+    })
+    
+    await tick()
+    expect((caught[0] as Error).message).toBe('closed')
+    expect(rejections).toEqual([])
+    
+    dispose()
+  })
+  
+  test('reports unhandled rejections instead of rejecting', async () => {
+    const logged = spyOn(console, 'error').mockImplementation(() => {})
+    const failing = {
+      [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(new Error('closed')) })
+    } as AsyncIterable<number>
+    
+    const dispose = createRoot(dispose => {
+      from(failing)
+      return dispose
+    })
+    
+    await tick()
+    expect(logged).toHaveBeenCalledTimes(1)
+    expect((logged.mock.calls[0]![1] as Error).message).toBe('closed')
+    expect(rejections).toEqual([])
+    
+    logged.mockRestore()
+    dispose()
+  })
+  
+  test('reports a rejected return', async () => {
+    const logged = spyOn(console, 'error').mockImplementation(() => {})
+    const closing = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => new Promise<IteratorResult<number>>(() => {}),
+        return: () => Promise.reject(new Error('already closed'))
+      })
+    } as AsyncIterable<number>
+    
+    createRoot(dispose => {
+      from(closing)
+      dispose()
+    })
+    
+    await tick()
+    expect(logged).toHaveBeenCalledTimes(1)
+    expect(rejections).toEqual([])
+    
+    logged.mockRestore()
+  })
+})
+
+describe('signals as Observables', () => {
+  test('emit the current value, then each change', () => {
+    const count = zenSignal(0)
+    const doubled = zenMemo(() => count() * 2)
+    const seen: number[] = []
+    
+    const observable = (doubled as unknown as Record<PropertyKey, () => Observable<number>>)[observableKey]!()
+    const subscription = observable.subscribe(value => seen.push(value))
+    
+    count(1)
+    count(2)
+    subscription.unsubscribe()
+    count(3)
+    
+    expect(seen).toEqual([0, 2, 4])
+  })
+  
+  test('interop method returns itself', () => {
+    const count = zenSignal(0)
+    const observable = (count as unknown as Record<PropertyKey, () => Observable<number>>)[observableKey]!()
+    const self = (observable as unknown as Record<PropertyKey, () => Observable<number>>)[observableKey]!()
+    
+    expect(self).toBe(observable)
+  })
+})
+
+describe('signals as async iterables', () => {
+  test('yield the current value, then each change', async () => {
+    const count = zenSignal(0)
+    const seen: number[] = []
+    
+    const done = (async () => {
+      for await (const value of count as unknown as AsyncIterable<number>) {
+        seen.push(value)
+        if (value === 2) break
+      }
+    })()
+    
+    await tick()
+    count(1)
+    await tick()
+    count(2)
+    await done
+    
+    expect(seen).toEqual([0, 1, 2])
+  })
+  
+  test('deliver only the latest value to a slow consumer', async () => {
+    const count = zenSignal(0)
+    const iterator = (count as unknown as AsyncIterable<number>)[Symbol.asyncIterator]()
+    
+    expect(await iterator.next()).toEqual({ value: 0, done: false })
+    
+    count(1)
+    count(2)
+    expect(await iterator.next()).toEqual({ value: 2, done: false })
+    
+    await iterator.return!()
+  })
+  
+  test('return ends the iteration', async () => {
+    const count = zenSignal(0)
+    const iterator = (count as unknown as AsyncIterable<number>)[Symbol.asyncIterator]()
+    
+    expect(await iterator.next()).toEqual({ value: 0, done: false })
+    
+    const pending = iterator.next()
+    await iterator.return!()
+    
+    expect(await pending).toEqual({ value: undefined, done: true })
+    expect(await iterator.next()).toEqual({ value: undefined, done: true })
+  })
+})
+
+describe('TC39 signals', () => {
+  test('fromTC39Signal follows the source on a microtask', async () => {
+    const api = createSignalAPI()
+    const source = new api.State(1)
+    
+    const [value, dispose] = createRoot(dispose => [fromTC39Signal(api, source), dispose] as const)
+    expect(value()).toBe(1)
+    
+    source.set(2)
+    expect(value()).toBe(1)
+    
+    await tick()
+    expect(value()).toBe(2)
+    
+    dispose()
+    source.set(3)
+    await tick()
+    expect(value()).toBe(2)
+  })
+  
+  test('toTC39Signal exposes the current value', () => {
+    const api = createSignalAPI()
+    const count = zenSignal(1)
+    
+    const [shared, dispose] = createRoot(dispose => [toTC39Signal(api, count), dispose] as const)
+    expect(shared.get()).toBe(1)
+    
+    count(2)
+    expect(shared.get()).toBe(2)
+    
+    dispose()
+    count(3)
+    expect(shared.get()).toBe(2)
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  zenSignal,
+  zenState,
+  zenEffect,
+  createRoot,
+  onCleanup,
+  mapArray,
+  indexArray
+} from '../../core/reactivity'
+
+type User = { id: number, name: string }
+
+describe('mapArray', () => {
+  test('maps each key once and reuses results of moved items', () => {
+    const list = zenSignal(['a', 'b', 'c'])
+    const mapped: string[] = []
+    
+    const [rows, dispose] = createRoot(dispose => [mapArray(list, item => {
+      mapped.push(item)
+      return { item }
+    }), dispose] as const)
+    
+    const [a, b, c] = rows()
+    list(['c', 'a', 'd', 'b'])
+    
+    expect(rows()).toEqual([c!, a!, { item: 'd' }, b!])
+    expect(rows()[0]).toBe(c!)
+    expect(rows()[3]).toBe(b!)
+    expect(mapped).toEqual(['a', 'b', 'c', 'd'])
+    dispose()
+  })
+  
+  test('keeps the index of moved items current', () => {
+    const list = zenSignal(['a', 'b'])
+    const seen: string[] = []
+    
+    const [rows, dispose] = createRoot(dispose => [mapArray(list, (item, index) => {
+      zenEffect(() => {
+        seen.push(`${item}@${index()}`)
+      })
+      return item
+    }), dispose] as const)
+    
+    rows()
+    list(['b', 'a'])
+    rows()
+    
+    expect(seen).toEqual(['a@0', 'b@1', 'b@0', 'a@1'])
+    dispose()
+  })
+  
+  test('disposes the scopes of removed items', () => {
+    const list = zenSignal(['a', 'b'])
+    const removed: string[] = []
+    
+    const [rows, dispose] = createRoot(dispose => [mapArray(list, item => {
+      onCleanup(() => removed.push(item))
+      return item
+    }), dispose] as const)
+    
+    rows()
+    list(['b'])
+    expect(rows()).toEqual(['b'])
+    expect(removed).toEqual(['a'])
+    
+    dispose()
+    expect(removed).toEqual(['a', 'b'])
+  })
+  
+  test('matches items by the key option', () => {
+    const users = zenSignal<User[]>([{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }])
+    let calls = 0
+    
+    const [rows, dispose] = createRoot(dispose => [mapArray(users, user => {
+      calls++
+      return user.name
+    }, { key: user => user.id }), dispose] as const)
+    
+    rows()
+    users([{ id: 2, name: 'Bobby' }, { id: 1, name: 'Ann' }])
+    
+    // Same keys - the results of the first mapping are kept
+    expect(rows()).toEqual(['Bob', 'Ann'])
+    expect(calls).toBe(2)
+    dispose()
+  })
+  
+  test('maps duplicate keys separately', () => {
+    const list = zenSignal(['x', 'x'])
+    const removed: string[] = []
+    
+    const [rows, dispose] = createRoot(dispose => [mapArray(list, item => {
+      onCleanup(() => removed.push(item))
+      return { item }
+    }), dispose] as const)
+    
+    const [first, second] = rows()
+    expect(first).not.toBe(second!)
+    
+    list(['x'])
+    expect(rows()).toEqual([first!])
+    expect(removed).toEqual(['x'])
+    dispose()
+  })
+  
+  test('follows a state array', () => {
+    const state = zenState({ items: ['a'] })
+    
+    const [rows, dispose] = createRoot(dispose => [mapArray(state.items, item => item.toUpperCase()), dispose] as const)
+    
+    expect(rows()).toEqual(['A'])
+    state.items.push('b')
+    expect(rows()).toEqual(['A', 'B'])
+    dispose()
+  })
+})
+
+describe('indexArray', () => {
+  test('maps each index once and updates the item in place', () => {
+    const list = zenSignal([1, 2])
+    const seen: string[] = []
+    let calls = 0
+    
+    const [cells, dispose] = createRoot(dispose => [indexArray(list, (value, index) => {
+      calls++
+      zenEffect(() => {
+        seen.push(`${index}:${value()}`)
+      })
+      return index
+    }), dispose] as const)
+    
+    cells()
+    list([10, 2])
+    
+    expect(cells()).toEqual([0, 1])
+    expect(calls).toBe(2)
+    expect(seen).toEqual(['0:1', '1:2', '0:10'])
+    dispose()
+  })
+  
+  test('maps new indices and disposes indices past the end', () => {
+    const list = zenSignal(['a', 'b'])
+    const removed: number[] = []
+    
+    const [cells, dispose] = createRoot(dispose => [indexArray(list, (_, index) => {
+      onCleanup(() => removed.push(index))
+      return index
+    }), dispose] as const)
+    
+    list(['a', 'b', 'c'])
+    expect(cells()).toEqual([0, 1, 2])
+    
+    list(['a'])
+    expect(cells()).toEqual([0])
+    expect(removed).toEqual([1, 2])
+    
+    dispose()
+    expect(removed).toEqual([1, 2, 0])
+  })
+  
+  test('treats a missing list as empty', () => {
+    const list = zenSignal<number[] | null>(null)
+    
+    const [cells, dispose] = createRoot(dispose => [indexArray(list, value => value), dispose] as const)
+    
+    expect(cells()).toEqual([])
+    list([1])
+    expect(cells().map(cell => cell())).toEqual([1])
+    dispose()
+  })
+})
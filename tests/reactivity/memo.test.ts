@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test'
+import { zenSignal, zenMemo, zenEffect, createRoot, inspect } from '../../core/reactivity'
+
+const microtask = () => new Promise<void>(resolve => queueMicrotask(resolve))
+
+/**
+ * Number of nodes reading a signal
+ */
+function readers(source: () => unknown): number {
+  return inspect(source)?.subscribers.length ?? 0
+}
+
+describe('memo subscription', () => {
+  test('releases its sources after the last subscriber is gone', async () => {
+    const count = zenSignal(1)
+    const doubled = zenMemo(() => count() * 2)
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        doubled()
+      })
+      return dispose
+    })
+    
+    expect(readers(count)).toBe(1)
+    
+    dispose()
+    await microtask()
+    expect(readers(count)).toBe(0)
+    
+    // Subscribes again on the next read
+    count(2)
+    expect(doubled()).toBe(4)
+  })
+  
+  test('releases its sources after an untracked read', async () => {
+    const count = zenSignal(1)
+    const doubled = zenMemo(() => count() * 2)
+    
+    expect(doubled()).toBe(2)
+    expect(readers(count)).toBe(1)
+    
+    await microtask()
+    expect(readers(count)).toBe(0)
+    
+    count(5)
+    expect(doubled.peek()).toBe(2)
+    expect(doubled()).toBe(10)
+  })
+  
+  test('releases its sources after a first peek', async () => {
+    const count = zenSignal(1)
+    const doubled = zenMemo(() => count() * 2)
+    
+    expect(doubled.peek()).toBe(2)
+    
+    await microtask()
+    expect(readers(count)).toBe(0)
+  })
+  
+  test('keeps its sources when a reader subscribes after computing', async () => {
+    const count = zenSignal(1)
+    const doubled = zenMemo(() => count() * 2)
+    const seen: number[] = []
+    
+    expect(doubled()).toBe(2)
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(doubled())
+      })
+      return dispose
+    })
+    
+    await microtask()
+    count(2)
+    
+    expect(readers(count)).toBe(1)
+    expect(seen).toEqual([2, 4])
+    dispose()
+  })
+  
+  test('dispose stops tracking and keeps the last value', () => {
+    const count = zenSignal(1)
+    const doubled = zenMemo(() => count() * 2)
+    
+    expect(doubled()).toBe(2)
+    doubled.dispose()
+    
+    count(3)
+    expect(doubled()).toBe(2)
+    expect(readers(count)).toBe(0)
+  })
+})
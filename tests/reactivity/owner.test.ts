@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  zenSignal,
+  zenEffect,
+  zenMemo,
+  createRoot,
+  getOwner,
+  runWithOwner,
+  onCleanup
+} from '../../core/reactivity'
+
+describe('owner disposal', () => {
+  test('disposing a root runs its cleanups in reverse order', () => {
+    const log: string[] = []
+    
+    const dispose = createRoot(dispose => {
+      onCleanup(() => log.push('first'))
+      onCleanup(() => log.push('second'))
+      return dispose
+    })
+    
+    expect(log).toEqual([])
+    dispose()
+    expect(log).toEqual(['second', 'first'])
+  })
+  
+  test('disposing a root stops its effects', () => {
+    const count = zenSignal(0)
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(count())
+      })
+      return dispose
+    })
+    
+    count(1)
+    dispose()
+    count(2)
+    
+    expect(seen).toEqual([0, 1])
+  })
+  
+  test('effects created by an effect are disposed when it re-runs', () => {
+    const outer = zenSignal(0)
+    const inner = zenSignal(0)
+    const log: string[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        const run = outer()
+        zenEffect(() => {
+          log.push(`inner ${run}:${inner()}`)
+        })
+        onCleanup(() => log.push(`cleanup ${run}`))
+      })
+      return dispose
+    })
+    
+    outer(1)
+    inner(1)
+    
+    expect(log).toEqual(['inner 0:0', 'cleanup 0', 'inner 1:0', 'inner 1:1'])
+    
+    dispose()
+    inner(2)
+    expect(log.slice(4)).toEqual(['cleanup 1'])
+  })
+  
+  test('nested roots are not disposed with their parent', () => {
+    const log: string[] = []
+    let disposeInner = () => {}
+    
+    const disposeOuter = createRoot(dispose => {
+      createRoot(dispose => {
+        disposeInner = dispose
+        onCleanup(() => log.push('inner'))
+      })
+      onCleanup(() => log.push('outer'))
+      return dispose
+    })
+    
+    disposeOuter()
+    expect(log).toEqual(['outer'])
+    
+    disposeInner()
+    expect(log).toEqual(['outer', 'inner'])
+  })
+  
+  test('runWithOwner attaches later work to a scope', async () => {
+    const log: string[] = []
+    
+    const [owner, dispose] = createRoot(dispose => [getOwner(), dispose] as const)
+    
+    await Promise.resolve()
+    runWithOwner(owner, () => {
+      onCleanup(() => log.push('late cleanup'))
+    })
+    
+    dispose()
+    expect(log).toEqual(['late cleanup'])
+  })
+  
+  test('memos are disposed with their owner', () => {
+    const count = zenSignal(1)
+    let computations = 0
+    
+    const dispose = createRoot(dispose => {
+      const doubled = zenMemo(() => {
+        computations++
+        return count() * 2
+      })
+      zenEffect(() => {
+        doubled()
+      })
+      return dispose
+    })
+    
+    dispose()
+    computations = 0
+    count(2)
+    
+    expect(computations).toBe(0)
+  })
+})
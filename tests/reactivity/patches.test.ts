@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test'
+import { zenState, observePatches, applyPatches, toRaw, type Patch } from '../../core/reactivity'
+
+type Item = { n: string }
+
+/**
+ * Record the patches of a state and replay them on a copy
+ */
+function replicate(initial: { items: Item[] }) {
+  const source = zenState(structuredClone(initial))
+  const replica = zenState(structuredClone(initial))
+  const patches: Patch[] = []
+  
+  observePatches(source, patch => patches.push(patch))
+  
+  return {
+    source,
+    patches,
+    sync() {
+      applyPatches(replica, patches.splice(0))
+      expect(toRaw(replica)).toEqual(toRaw(source))
+    }
+  }
+}
+
+describe('patches on reordered arrays', () => {
+  test('edit of an element held across unshift', () => {
+    const { source, patches } = replicate({ items: [{ n: 'a' }, { n: 'b' }] })
+    
+    const b = source.items[1]!
+    source.items.unshift({ n: 'x' })
+    patches.length = 0
+    
+    b.n = 'B'
+    expect(patches).toEqual([{ op: 'replace', path: '/items/2/n', value: 'B' }])
+  })
+  
+  test('round trip through reverse', () => {
+    const { source, sync } = replicate({ items: [{ n: 'a' }, { n: 'b' }, { n: 'c' }] })
+    
+    const a = source.items[0]!
+    source.items.reverse()
+    a.n = 'A'
+    
+    sync()
+  })
+  
+  test('round trip through splice, push and sort', () => {
+    const { source, sync } = replicate({ items: [{ n: 'c' }, { n: 'a' }, { n: 'b' }, { n: 'd' }] })
+    
+    const c = source.items[0]!
+    const d = source.items[3]!
+    
+    source.items.splice(0, 1)
+    source.items.push(c)
+    c.n = 'C'
+    sync()
+    
+    source.items.sort((x, y) => x.n.localeCompare(y.n))
+    d.n = 'D'
+    source.items.splice(1, 0, { n: 'new' })
+    d.n = 'DD'
+    sync()
+  })
+})
+
+describe('patches of nested Sets', () => {
+  test('round trip of a Set inside an array', () => {
+    const source = zenState({ groups: [new Set(['a'])] })
+    const replica = zenState({ groups: [new Set(['a'])] })
+    const patches: Patch[] = []
+    
+    observePatches(source, patch => patches.push(patch))
+    
+    source.groups[0]!.add('b')
+    source.groups[0]!.delete('a')
+    applyPatches(replica, patches)
+    
+    const group = toRaw(replica).groups[0]
+    expect(group).toBeInstanceOf(Set)
+    expect([...group!]).toEqual(['b'])
+  })
+  
+  test('round trip of a Set inside a Map', () => {
+    const initial = () => ({ tags: new Map([['x', new Set([1])]]) })
+    const source = zenState(initial())
+    const replica = zenState(initial())
+    const patches: Patch[] = []
+    
+    observePatches(source, patch => patches.push(patch))
+    
+    source.tags.get('x')!.add(2)
+    applyPatches(replica, patches)
+    
+    const tags = toRaw(replica).tags.get('x')
+    expect(tags).toBeInstanceOf(Set)
+    expect([...tags!]).toEqual([1, 2])
+  })
+})
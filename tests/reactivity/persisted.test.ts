@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  persistedSignal,
+  persistedState,
+  createMemoryStorage,
+  createWebStorage,
+  createRoot
+} from '../../core/reactivity'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10))
+
+describe('persisted values without window', () => {
+  test('web storage falls back to memory', () => {
+    expect(typeof window).toBe('undefined')
+    
+    const storage = createWebStorage('local')
+    storage.setItem('key', 'value')
+    
+    expect(storage.getItem('key')).toBe('value')
+    expect(createWebStorage('local').getItem('key')).toBeNull()
+  })
+  
+  test('loads from and writes to the given storage', async () => {
+    const storage = createMemoryStorage()
+    storage.setItem('theme', JSON.stringify({ version: 0, value: 'dark' }))
+    
+    const theme = persistedSignal('theme', 'light', { storage })
+    await theme.ready
+    expect(theme()).toBe('dark')
+    
+    theme('blue')
+    await tick()
+    expect(JSON.parse(storage.getItem('theme') as string).value).toBe('blue')
+  })
+  
+  test('instances with the same key do not sync within the process', async () => {
+    const a = persistedSignal('cart', '', { storage: createMemoryStorage() })
+    const b = persistedSignal('cart', '', { storage: createMemoryStorage() })
+    
+    a('user-A-secret')
+    await tick()
+    
+    expect(b()).toBe('')
+  })
+  
+  test('state is written once per microtask', async () => {
+    const storage = createMemoryStorage()
+    const writes: string[] = []
+    const counting = { ...storage, setItem: (key: string, value: string) => { writes.push(value) } }
+    
+    createRoot(dispose => {
+      const cart = persistedState('cart', { items: [] as number[] }, { storage: counting })
+      cart.items.push(1)
+      cart.items.push(2)
+      return dispose
+    })
+    await tick()
+    
+    expect(writes).toHaveLength(1)
+    expect(JSON.parse(writes[0]!).value).toEqual({ items: [1, 2] })
+  })
+  
+  test('does not keep the process alive', () => {
+    const result = Bun.spawnSync({
+      cmd: [process.execPath, '-e', `
+        import { persistedSignal } from '${new URL('../../core/reactivity/zen-persisted.ts', import.meta.url).pathname}'
+        persistedSignal('cart', 0)(1)
+      `],
+      timeout: 5000
+    })
+    
+    expect(result.exitCode).toBe(0)
+  })
+})
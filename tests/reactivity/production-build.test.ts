@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import vm from 'node:vm'
+
+/**
+ * Bundle the reactivity core for the browser
+ */
+async function bundle(nodeEnv: string): Promise<string> {
+  const result = await Bun.build({
+    entrypoints: [new URL('../../core/reactivity/index.ts', import.meta.url).pathname],
+    target: 'browser',
+    define: { 'process.env.NODE_ENV': JSON.stringify(nodeEnv) }
+  })
+  
+  expect(result.success).toBe(true)
+  return result.outputs[0]!.text()
+}
+
+// Code that must only exist in development builds
+const devOnly = [
+  '__ZENITH_DEVTOOLS__',
+  'registerNode',
+  'FinalizationRegistry',
+  'checkSignalWrite',
+  'checkEffectCreation',
+  'runEffectCleanup',
+  'reportEffectLoop',
+  'MAX_FLUSH_ITERATIONS',
+  'new Error().stack'
+]
+
+describe('production build', () => {
+  test('removes devtools and diagnostics', async () => {
+    const code = await bundle('production')
+    
+    for (const marker of devOnly) {
+      expect(code).not.toContain(marker)
+    }
+  })
+  
+  test('keeps them in development', async () => {
+    const code = await bundle('development')
+    
+    for (const marker of devOnly) {
+      expect(code).toContain(marker)
+    }
+  })
+})
+
+describe('build without NODE_ENV', () => {
+  test('runs where process is not defined', async () => {
+    const reactivity = new URL('../../core/reactivity/index.ts', import.meta.url).pathname
+    const dir = mkdtempSync(join(tmpdir(), 'zenith-'))
+    const entry = join(dir, 'entry.ts')
+    
+    writeFileSync(entry, [
+      `import { zenSignal, zenEffect, createRoot } from ${JSON.stringify(reactivity)}`,
+      'const count = zenSignal(1)',
+      'createRoot(() => zenEffect(() => { globalThis.seen.push(count()) }))',
+      'count(2)'
+    ].join('\n'))
+    
+    // Keep the read as written, like a bundler without the define
+    const result = await Bun.build({
+      entrypoints: [entry],
+      target: 'browser',
+      format: 'iife',
+      define: { 'process.env.NODE_ENV': 'process.env.NODE_ENV' }
+    })
+    
+    rmSync(dir, { recursive: true })
+    expect(result.success).toBe(true)
+    const code = await result.outputs[0]!.text()
+    expect(code).toContain('process.env.NODE_ENV')
+    
+    const context = vm.createContext({ seen: [], console, queueMicrotask })
+    vm.runInContext(code, context)
+    
+    expect(context.seen).toEqual([1, 2])
+  })
+})
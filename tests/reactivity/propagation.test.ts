@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'bun:test'
+import { zenSignal, zenMemo, zenEffect, zenBatch, createRoot } from '../../core/reactivity'
+
+describe('glitch-free propagation', () => {
+  test('diamond dependencies run the effect once with consistent values', () => {
+    const a = zenSignal(1)
+    const b = zenMemo(() => a() * 2)
+    const c = zenMemo(() => a() + 1)
+    const seen: [number, number][] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push([b(), c()])
+      })
+      return dispose
+    })
+    
+    a(2)
+    a(3)
+    
+    expect(seen).toEqual([[2, 2], [4, 3], [6, 4]])
+    dispose()
+  })
+  
+  test('deep diamonds compute each memo once per change', () => {
+    const a = zenSignal(0)
+    let computations = 0
+    
+    const left = zenMemo(() => {
+      computations++
+      return a() + 1
+    })
+    const right = zenMemo(() => {
+      computations++
+      return a() * 10
+    })
+    const joined = zenMemo(() => {
+      computations++
+      return left() + right()
+    })
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(joined())
+      })
+      return dispose
+    })
+    
+    computations = 0
+    a(1)
+    
+    expect(seen).toEqual([1, 12])
+    expect(computations).toBe(3)
+    dispose()
+  })
+  
+  test('memos that keep their value stop propagation', () => {
+    const a = zenSignal(1)
+    const parity = zenMemo(() => a() % 2)
+    let runs = 0
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        parity()
+        runs++
+      })
+      return dispose
+    })
+    
+    a(3)
+    expect(runs).toBe(1)
+    
+    a(4)
+    expect(runs).toBe(2)
+    dispose()
+  })
+  
+  test('batched writes run effects once', () => {
+    const first = zenSignal('a')
+    const last = zenSignal('b')
+    const seen: string[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(`${first()} ${last()}`)
+      })
+      return dispose
+    })
+    
+    zenBatch(() => {
+      first('x')
+      last('y')
+    })
+    
+    expect(seen).toEqual(['a b', 'x y'])
+    dispose()
+  })
+})
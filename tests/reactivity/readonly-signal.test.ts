@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  zenSignal,
+  zenEffect,
+  createRoot,
+  createSignal,
+  type ReadonlySignal
+} from '../../core/reactivity'
+
+describe('asReadonly', () => {
+  test('reads and tracks the source signal', () => {
+    const count = zenSignal(1)
+    const view = count.asReadonly()
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(view())
+      })
+      return dispose
+    })
+    
+    count(2)
+    
+    expect(seen).toEqual([1, 2])
+    expect(view.value).toBe(2)
+    expect(view.peek()).toBe(2)
+    dispose()
+  })
+  
+  test('cannot write', () => {
+    const count = zenSignal(1)
+    const view = count.asReadonly()
+    
+    // @ts-expect-error - read-only signals take no arguments
+    view(5)
+    expect(() => {
+      ;(view as { value: number }).value = 5
+    }).toThrow(TypeError)
+    
+    expect(count()).toBe(1)
+    expect('update' in view).toBe(false)
+  })
+  
+  test('is always the same view', () => {
+    const count = zenSignal(1)
+    
+    expect(count.asReadonly()).toBe(count.asReadonly())
+  })
+  
+  test('subscribe receives the source changes', () => {
+    const count = zenSignal(1)
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      count.asReadonly().subscribe(value => seen.push(value))
+      return dispose
+    })
+    
+    count(2)
+    dispose()
+    count(3)
+    
+    expect(seen).toEqual([2])
+  })
+  
+  test('a writable signal is assignable to ReadonlySignal', () => {
+    const count = zenSignal(1)
+    const total: ReadonlySignal<number> = count
+    
+    expect(total()).toBe(1)
+  })
+})
+
+describe('createSignal', () => {
+  test('returns a read-only getter and its setter', () => {
+    const [name, setName] = createSignal('Ann')
+    const seen: string[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(name())
+      })
+      return dispose
+    })
+    
+    setName('Bob')
+    
+    expect(seen).toEqual(['Ann', 'Bob'])
+    expect('update' in name).toBe(false)
+    dispose()
+  })
+  
+  test('passes the options to the signal', () => {
+    const [tick, setTick] = createSignal(0, { equals: false })
+    let runs = 0
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        tick()
+        runs++
+      })
+      return dispose
+    })
+    
+    setTick(0)
+    
+    expect(runs).toBe(2)
+    dispose()
+  })
+})
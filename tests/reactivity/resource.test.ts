@@ -0,0 +1,147 @@
+import { describe, expect, test } from 'bun:test'
+import { zenSignal, zenResource, zenEffect, createRoot } from '../../core/reactivity'
+
+/**
+ * Promise settled by hand
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+/**
+ * Fetcher handing out one controlled request per call
+ */
+function createFetcher<S, T>() {
+  const calls: { source: S, signal: AbortSignal, refetching: boolean, request: ReturnType<typeof deferred<T>> }[] = []
+  
+  const fetcher = (source: S, info: { signal: AbortSignal, refetching: boolean }) => {
+    const request = deferred<T>()
+    calls.push({ source, ...info, request })
+    return request.promise
+  }
+  
+  return { calls, fetcher }
+}
+
+describe('zenResource', () => {
+  test('exposes loading, data and error', async () => {
+    const { calls, fetcher } = createFetcher<true, string>()
+    
+    const [user, dispose] = createRoot(dispose => [zenResource(fetcher, { initialValue: 'none' }), dispose] as const)
+    expect(user.loading()).toBe(true)
+    expect(user()).toBe('none')
+    
+    calls[0]!.request.resolve('ada')
+    await calls[0]!.request.promise
+    expect(user.loading()).toBe(false)
+    expect(user.data()).toBe('ada')
+    
+    const refetched = user.refetch()
+    calls[1]!.request.reject(new Error('offline'))
+    expect(await refetched).toBeUndefined()
+    expect((user.error() as Error).message).toBe('offline')
+    expect(user()).toBe('ada')
+    
+    dispose()
+  })
+  
+  test('a stale response loses to a newer one', async () => {
+    const id = zenSignal(1)
+    const { calls, fetcher } = createFetcher<number, string>()
+    
+    const [user, dispose] = createRoot(dispose => [zenResource(id, fetcher), dispose] as const)
+    
+    id(2)
+    expect(calls.map(call => call.source)).toEqual([1, 2])
+    
+    // Resolve out of order
+    calls[1]!.request.resolve('user 2')
+    await calls[1]!.request.promise
+    calls[0]!.request.resolve('user 1')
+    await calls[0]!.request.promise
+    
+    expect(user()).toBe('user 2')
+    expect(user.loading()).toBe(false)
+    
+    dispose()
+  })
+  
+  test('aborts the previous request on refetch and source change', () => {
+    const id = zenSignal(1)
+    const { calls, fetcher } = createFetcher<number, string>()
+    
+    const [user, dispose] = createRoot(dispose => [zenResource(id, fetcher), dispose] as const)
+    
+    user.refetch()
+    expect(calls[0]!.signal.aborted).toBe(true)
+    expect(calls[1]!.refetching).toBe(true)
+    expect(calls[1]!.source).toBe(1)
+    
+    id(2)
+    expect(calls[1]!.signal.aborted).toBe(true)
+    expect(calls[2]!.refetching).toBe(false)
+    expect(calls[2]!.signal.aborted).toBe(false)
+    
+    dispose()
+  })
+  
+  test('aborts with the owner scope and ignores late results', async () => {
+    const { calls, fetcher } = createFetcher<true, string>()
+    
+    const [user, dispose] = createRoot(dispose => [zenResource(fetcher), dispose] as const)
+    dispose()
+    
+    expect(calls[0]!.signal.aborted).toBe(true)
+    
+    calls[0]!.request.resolve('late')
+    await calls[0]!.request.promise
+    expect(user()).toBeUndefined()
+    expect(await user.refetch()).toBeUndefined()
+    expect(calls).toHaveLength(1)
+  })
+  
+  test('a paused source does not fetch', () => {
+    const id = zenSignal<number | null>(null)
+    const { calls, fetcher } = createFetcher<number, string>()
+    
+    const [user, dispose] = createRoot(dispose => [zenResource(id, fetcher), dispose] as const)
+    expect(calls).toHaveLength(0)
+    expect(user.loading()).toBe(false)
+    
+    id(1)
+    expect(calls).toHaveLength(1)
+    
+    id(null)
+    expect(calls[0]!.signal.aborted).toBe(true)
+    expect(user.loading()).toBe(false)
+    
+    dispose()
+  })
+  
+  test('mutate overwrites data without fetching', () => {
+    const { calls, fetcher } = createFetcher<true, string>()
+    const seen: (string | undefined)[] = []
+    
+    const [user, dispose] = createRoot(dispose => {
+      const user = zenResource(fetcher)
+      zenEffect(() => {
+        seen.push(user())
+      })
+      return [user, dispose] as const
+    })
+    
+    user.mutate('draft')
+    
+    expect(user()).toBe('draft')
+    expect(seen).toEqual([undefined, 'draft'])
+    expect(calls).toHaveLength(1)
+    
+    dispose()
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  zenSignal,
+  zenEffect,
+  createRoot,
+  createReactiveRuntime,
+  setSchedulerMode,
+  getSchedulerMode,
+  nextTick
+} from '../../core/reactivity'
+
+describe('signals shared between runtimes', () => {
+  test('effects run in the runtime that created them', () => {
+    const a = createReactiveRuntime()
+    const b = createReactiveRuntime()
+    const shared = zenSignal(0)
+    const modes: string[] = []
+    
+    b.run(() => setSchedulerMode('sync'))
+    a.run(() => setSchedulerMode('microtask'))
+    
+    b.run(() => createRoot(() => {
+      zenEffect(() => {
+        shared()
+        modes.push(getSchedulerMode())
+      })
+    }))
+    
+    a.run(() => shared(1))
+    
+    // Flushed by runtime B (sync) right away, not by A's microtask flush
+    expect(modes).toEqual(['sync', 'sync'])
+    expect(a.pendingEffects.size).toBe(0)
+  })
+  
+  test('each runtime flushes in its own mode', async () => {
+    const a = createReactiveRuntime()
+    const b = createReactiveRuntime()
+    const shared = zenSignal(0)
+    const seen: string[] = []
+    
+    b.run(() => setSchedulerMode('microtask'))
+    
+    a.run(() => createRoot(() => {
+      zenEffect(() => {
+        seen.push(`a${shared()}`)
+      })
+    }))
+    b.run(() => createRoot(() => {
+      zenEffect(() => {
+        seen.push(`b${shared()}`)
+      })
+    }))
+    
+    a.run(() => shared(1))
+    expect(seen).toEqual(['a0', 'b0', 'a1'])
+    
+    await b.run(() => nextTick())
+    expect(seen).toEqual(['a0', 'b0', 'a1', 'b1'])
+  })
+  
+  test('subscriptions are notified in their runtime', () => {
+    const a = createReactiveRuntime()
+    const b = createReactiveRuntime()
+    const shared = zenSignal(0)
+    const values: number[] = []
+    
+    b.run(() => shared.subscribe(value => values.push(value)))
+    a.run(() => shared(1))
+    
+    expect(values).toEqual([1])
+    expect(a.pendingEffects.size).toBe(0)
+    expect(b.pendingEffects.size).toBe(0)
+  })
+})
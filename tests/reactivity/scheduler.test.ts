@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import {
+  zenSignal,
+  zenEffect,
+  createRoot,
+  catchError,
+  setSchedulerMode,
+  nextTick
+} from '../../core/reactivity'
+
+describe('microtask mode error handling', () => {
+  const rejections: unknown[] = []
+  const onRejection = (reason: unknown) => {
+    rejections.push(reason)
+  }
+  
+  beforeEach(() => {
+    rejections.length = 0
+    process.on('unhandledRejection', onRejection)
+    setSchedulerMode('microtask')
+  })
+  
+  afterEach(() => {
+    setSchedulerMode('sync')
+    process.off('unhandledRejection', onRejection)
+  })
+  
+  test('reports unhandled effect errors instead of rejecting', async () => {
+    const logged = spyOn(console, 'error').mockImplementation(() => {})
+    const count = zenSignal(0)
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        if (count() === 1) throw new Error('boom')
+      })
+      zenEffect(() => {
+        seen.push(count())
+      })
+      return dispose
+    })
+    
+    count(1)
+    await nextTick()
+    await new Promise(resolve => setTimeout(resolve, 10))
+    
+    expect(seen).toEqual([0, 1])
+    expect(rejections).toEqual([])
+    expect(logged).toHaveBeenCalledTimes(1)
+    expect((logged.mock.calls[0]![1] as Error).message).toBe('boom')
+    
+    logged.mockRestore()
+    dispose()
+  })
+  
+  test('passes effect errors to error boundaries', async () => {
+    const logged = spyOn(console, 'error').mockImplementation(() => {})
+    const count = zenSignal(0)
+    const caught: unknown[] = []
+    
+    const dispose = createRoot(dispose => {
+      catchError(() => {
+        zenEffect(() => {
+          if (count() === 1) throw new Error('boom')
+        })
+      }, error => caught.push(error))
+      return dispose
+    })
+    
+    count(1)
+    await nextTick()
+    
+    expect(caught).toHaveLength(1)
+    expect(logged).not.toHaveBeenCalled()
+    expect(rejections).toEqual([])
+    
+    logged.mockRestore()
+    dispose()
+  })
+  
+  test('effects keep running after an error', async () => {
+    const logged = spyOn(console, 'error').mockImplementation(() => {})
+    const count = zenSignal(0)
+    const seen: number[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(count())
+        if (count() === 1) throw new Error('boom')
+      })
+      return dispose
+    })
+    
+    count(1)
+    await nextTick()
+    count(2)
+    await nextTick()
+    
+    expect(seen).toEqual([0, 1, 2])
+    
+    logged.mockRestore()
+    dispose()
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test'
+import { zenSignal, zenEffect, createRoot, createSelector } from '../../core/reactivity'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('createSelector', () => {
+  test('notifies only the previous and the next key', () => {
+    const selected = zenSignal(0)
+    const runs = [0, 0, 0]
+    
+    const dispose = createRoot(dispose => {
+      const isSelected = createSelector(selected)
+      for (const row of [0, 1, 2]) {
+        zenEffect(() => {
+          isSelected(row)
+          runs[row]!++
+        })
+      }
+      return dispose
+    })
+    
+    selected(2)
+    expect(runs).toEqual([2, 1, 2])
+    dispose()
+  })
+  
+  test('forgets the keys of removed rows', async () => {
+    const cursor = zenSignal(0)
+    const checked: number[] = []
+    
+    await createRoot(async dispose => {
+      const isNear = createSelector(cursor, (row: number, at: number) => {
+        checked.push(row)
+        return Math.abs(row - at) < 2
+      })
+      
+      const rows = Array.from({ length: 100 }, (_, row) => createRoot(disposeRow => {
+        zenEffect(() => {
+          isNear(row)
+        })
+        return disposeRow
+      }))
+      
+      // Remove all rows but the first
+      rows.slice(1).forEach(disposeRow => disposeRow())
+      await tick()
+      
+      checked.length = 0
+      cursor(1)
+      
+      expect(checked).toEqual([0, 0])
+      dispose()
+    })
+  })
+  
+  test('keeps the keys of re-running readers', async () => {
+    const selected = zenSignal(0)
+    const other = zenSignal(0)
+    let runs = 0
+    
+    const dispose = createRoot(dispose => {
+      const isSelected = createSelector(selected)
+      zenEffect(() => {
+        other()
+        isSelected(1)
+        runs++
+      })
+      return dispose
+    })
+    
+    other(1)
+    await tick()
+    
+    selected(1)
+    expect(runs).toBe(3)
+    dispose()
+  })
+})
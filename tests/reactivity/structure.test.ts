@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'bun:test'
+import { zenState, zenEffect, createRoot } from '../../core/reactivity'
+
+/**
+ * Run an effect in its own scope, recording what it returns on each run
+ */
+function record<T>(read: () => T) {
+  const runs: T[] = []
+  const dispose = createRoot(dispose => {
+    zenEffect(() => {
+      runs.push(read())
+    })
+    return dispose
+  })
+  return { runs, dispose }
+}
+
+describe('key iteration', () => {
+  test('Object.keys re-runs on add and delete, not on value changes', () => {
+    const state = zenState<{ labels: Record<string, string> }>({ labels: { a: 'A' } })
+    const { runs, dispose } = record(() => Object.keys(state.labels))
+    
+    state.labels.a = 'AA'
+    state.labels.b = 'B'
+    delete state.labels.a
+    
+    expect(runs).toEqual([['a'], ['a', 'b'], ['b']])
+    dispose()
+  })
+  
+  test('in re-runs when the key appears or disappears', () => {
+    const state = zenState<{ labels: Record<string, string> }>({ labels: {} })
+    const { runs, dispose } = record(() => 'a' in state.labels)
+    
+    state.labels.b = 'B'
+    state.labels.a = 'A'
+    delete state.labels.a
+    
+    expect(runs).toEqual([false, true, false])
+    dispose()
+  })
+  
+  test('deleting a missing key does not notify', () => {
+    const state = zenState<{ labels: Record<string, string> }>({ labels: { a: 'A' } })
+    const { runs, dispose } = record(() => Object.keys(state.labels))
+    
+    delete state.labels.missing
+    
+    expect(runs).toEqual([['a']])
+    dispose()
+  })
+})
+
+describe('arrays', () => {
+  test('length readers re-run on push, pop and truncation', () => {
+    const state = zenState({ items: [1, 2, 3] })
+    const { runs, dispose } = record(() => state.items.length)
+    
+    state.items.push(4)
+    state.items.pop()
+    state.items.length = 1
+    state.items[0] = 10
+    
+    expect(runs).toEqual([3, 4, 3, 1])
+    dispose()
+  })
+  
+  test('element readers re-run when truncation removes the element', () => {
+    const state = zenState({ items: ['a', 'b', 'c'] })
+    const { runs, dispose } = record(() => state.items[2])
+    
+    state.items.length = 2
+    
+    expect(runs).toEqual(['c', undefined])
+    dispose()
+  })
+  
+  test('iteration re-runs when an index is set past the end', () => {
+    const state = zenState({ items: ['a'] as (string | undefined)[] })
+    const { runs, dispose } = record(() => [...state.items])
+    
+    state.items[2] = 'c'
+    
+    expect(runs).toEqual([['a'], ['a', undefined, 'c']])
+    dispose()
+  })
+  
+  test('push and splice notify once with the final array', () => {
+    const state = zenState({ items: [1, 2, 3] })
+    const { runs, dispose } = record(() => state.items.join())
+    
+    state.items.push(4, 5)
+    state.items.splice(0, 2, 9)
+    state.items.unshift(0)
+    state.items.reverse()
+    
+    expect(runs).toEqual(['1,2,3', '1,2,3,4,5', '9,3,4,5', '0,9,3,4,5', '5,4,3,9,0'])
+    dispose()
+  })
+  
+  test('mutating inside an effect does not subscribe it to the array', () => {
+    const state = zenState({ log: [] as string[], trigger: 0 })
+    let runs = 0
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        runs++
+        state.trigger
+        state.log.push('run')
+      })
+      return dispose
+    })
+    
+    state.log.push('outside')
+    state.trigger++
+    
+    expect(runs).toBe(2)
+    expect(state.log).toEqual(['run', 'outside', 'run'])
+    dispose()
+  })
+  
+  test('mutators keep their identity', () => {
+    const state = zenState({ items: [1], other: [2] })
+    
+    expect(state.items.push).toBe(state.items.push)
+    expect(state.items.splice).toBe(state.other.splice)
+  })
+})
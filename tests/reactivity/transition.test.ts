@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  zenSignal,
+  zenEffect,
+  createRoot,
+  startTransition,
+  isPending,
+  deferred
+} from '../../core/reactivity'
+
+const idle = () => new Promise(resolve => setTimeout(resolve, 5))
+
+describe('startTransition', () => {
+  test('commits forked writes together once idle', async () => {
+    const filter = zenSignal('')
+    const page = zenSignal(1)
+    const seen: string[] = []
+    
+    const dispose = createRoot(dispose => {
+      zenEffect(() => {
+        seen.push(`${filter()}:${page()}:${isPending()}`)
+      })
+      return dispose
+    })
+    
+    const done = startTransition(() => {
+      filter('a')
+      page(2)
+    })
+    
+    expect(filter()).toBe('')
+    expect(isPending()).toBe(true)
+    
+    await done
+    
+    expect(filter()).toBe('a')
+    expect(page()).toBe(2)
+    expect(isPending()).toBe(false)
+    expect(seen).toEqual([':1:false', ':1:true', 'a:2:false'])
+    dispose()
+  })
+  
+  test('untracked reads inside the transition see the pending value', async () => {
+    const count = zenSignal(0)
+    let inside: number | undefined
+    
+    const done = startTransition(() => {
+      count(1)
+      inside = count()
+      count(inside + 1)
+    })
+    
+    expect(inside).toBe(1)
+    expect(count()).toBe(0)
+    
+    await done
+    expect(count()).toBe(2)
+  })
+  
+  test('transitions started before the commit join it', async () => {
+    const a = zenSignal(0)
+    const b = zenSignal(0)
+    
+    const first = startTransition(() => a(1))
+    const second = startTransition(() => b(1))
+    
+    expect(second).toBe(first)
+    
+    await first
+    expect([a(), b()]).toEqual([1, 1])
+  })
+  
+  test('urgent writes apply right away', async () => {
+    const query = zenSignal('')
+    const filter = zenSignal('')
+    
+    const done = startTransition(() => filter('slow'))
+    query('fast')
+    
+    expect(query()).toBe('fast')
+    expect(filter()).toBe('')
+    
+    await done
+    expect(filter()).toBe('slow')
+  })
+  
+  test('disposing the scope drops a pending transition', async () => {
+    const filter = zenSignal('')
+    
+    const [done, dispose] = createRoot(dispose => [startTransition(() => filter('a')), dispose] as const)
+    
+    dispose()
+    expect(isPending()).toBe(false)
+    
+    await done
+    await idle()
+    expect(filter()).toBe('')
+    
+    // A new transition starts fresh
+    await startTransition(() => filter('b'))
+    expect(filter()).toBe('b')
+  })
+})
+
+describe('deferred', () => {
+  test('follows the source once idle', async () => {
+    const query = zenSignal('a')
+    
+    const [lagging, dispose] = createRoot(dispose => [deferred(query), dispose] as const)
+    expect(lagging()).toBe('a')
+    
+    query('ab')
+    query('abc')
+    expect(lagging()).toBe('a')
+    
+    await idle()
+    expect(lagging()).toBe('abc')
+    dispose()
+  })
+  
+  test('stops following when disposed', async () => {
+    const query = zenSignal('a')
+    
+    const [lagging, dispose] = createRoot(dispose => [deferred(query), dispose] as const)
+    
+    query('b')
+    dispose()
+    
+    await idle()
+    expect(lagging()).toBe('a')
+  })
+})
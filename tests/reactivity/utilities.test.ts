@@ -0,0 +1,126 @@
+import { describe, expect, spyOn, test } from 'bun:test'
+import {
+  zenState,
+  zenEffect,
+  createRoot,
+  toRaw,
+  markRaw,
+  readonly,
+  shallowState,
+  isReactive,
+  isReadonly
+} from '../../core/reactivity'
+
+/**
+ * Run an effect in its own scope, recording what it returns on each run
+ */
+function record<T>(read: () => T) {
+  const runs: T[] = []
+  const dispose = createRoot(dispose => {
+    zenEffect(() => {
+      runs.push(read())
+    })
+    return dispose
+  })
+  return { runs, dispose }
+}
+
+describe('toRaw', () => {
+  test('returns the original objects', () => {
+    const nested = { value: 1 }
+    const raw = { nested }
+    const state = zenState(raw)
+    
+    expect(toRaw(state)).toBe(raw)
+    expect(toRaw(state.nested)).toBe(nested)
+    expect(toRaw(readonly(state))).toBe(raw)
+    expect(toRaw(raw)).toBe(raw)
+    expect(toRaw(1)).toBe(1)
+  })
+  
+  test('stores raw objects when assigned a proxy', () => {
+    const state = zenState({ a: { value: 1 }, b: null as { value: number } | null })
+    
+    state.b = state.a
+    
+    expect(toRaw(state).b).toBe(toRaw(state).a)
+    expect(isReactive(toRaw(state).b)).toBe(false)
+  })
+})
+
+describe('markRaw', () => {
+  test('marked objects are never proxied or tracked', () => {
+    const client = markRaw({ connected: false })
+    const state = zenState({ client })
+    const { runs, dispose } = record(() => state.client.connected)
+    
+    expect(state.client).toBe(client)
+    expect(isReactive(state.client)).toBe(false)
+    
+    state.client.connected = true
+    expect(runs).toEqual([false])
+    
+    dispose()
+  })
+  
+  test('zenState returns a marked object as is', () => {
+    const client = markRaw({ connected: false })
+    
+    expect(zenState(client)).toBe(client)
+  })
+})
+
+describe('readonly', () => {
+  test('rejects writes with a warning and keeps the value', () => {
+    const warned = spyOn(console, 'warn').mockImplementation(() => {})
+    const view = readonly({ user: { name: 'ada' }, tags: new Set(['a']) })
+    
+    ;(view as { user: { name: string } }).user.name = 'grace'
+    delete (view as { user?: unknown }).user
+    ;(view.tags as Set<string>).add('b')
+    
+    expect(view.user.name).toBe('ada')
+    expect([...view.tags]).toEqual(['a'])
+    expect(warned).toHaveBeenCalledTimes(3)
+    expect(isReadonly(view.user)).toBe(true)
+    
+    warned.mockRestore()
+  })
+  
+  test('a view of a state tracks reads and reflects writes to the state', () => {
+    const state = zenState({ count: 0 })
+    const view = readonly(state)
+    const { runs, dispose } = record(() => view.count)
+    
+    state.count = 1
+    
+    expect(runs).toEqual([0, 1])
+    expect(isReactive(view)).toBe(true)
+    expect(isReadonly(view)).toBe(true)
+    expect(isReadonly(state)).toBe(false)
+    
+    dispose()
+  })
+})
+
+describe('shallowState', () => {
+  test('tracks top-level properties only', () => {
+    const state = shallowState({ count: 0, nested: { value: 0 } })
+    const count = record(() => state.count)
+    const nested = record(() => state.nested.value)
+    
+    expect(isReactive(state)).toBe(true)
+    expect(isReactive(state.nested)).toBe(false)
+    
+    state.nested.value = 1
+    expect(nested.runs).toEqual([0])
+    
+    state.nested = { value: 2 }
+    state.count = 1
+    expect(nested.runs).toEqual([0, 2])
+    expect(count.runs).toEqual([0, 1])
+    
+    count.dispose()
+    nested.dispose()
+  })
+})
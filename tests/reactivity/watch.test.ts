@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test'
+import { zenState, zenSignal, zenWatch, createRoot } from '../../core/reactivity'
+
+describe('watching several sources', () => {
+  test('tracks state objects in a source array deeply', () => {
+    const state = zenState({ n: 1, nested: { m: 1 } })
+    const count = zenSignal(0)
+    const calls: [number, number][] = []
+    
+    const dispose = createRoot(dispose => {
+      zenWatch([state, count], ([value, current]) => {
+        calls.push([value.n, current])
+      })
+      return dispose
+    })
+    
+    state.n = 2
+    state.nested.m = 2
+    count(1)
+    
+    expect(calls).toEqual([[2, 0], [2, 0], [2, 1]])
+    dispose()
+  })
+  
+  test('only tracks the state object itself with deep: false', () => {
+    const state = zenState({ n: 1 })
+    const count = zenSignal(0)
+    let calls = 0
+    
+    const dispose = createRoot(dispose => {
+      zenWatch([state, count], () => {
+        calls++
+      }, { deep: false })
+      return dispose
+    })
+    
+    state.n = 2
+    expect(calls).toBe(0)
+    
+    count(1)
+    expect(calls).toBe(1)
+    dispose()
+  })
+  
+  test('skips unchanged getter values', () => {
+    const count = zenSignal(1)
+    let calls = 0
+    
+    const dispose = createRoot(dispose => {
+      zenWatch([() => count() > 0], () => {
+        calls++
+      })
+      return dispose
+    })
+    
+    count(2)
+    expect(calls).toBe(0)
+    
+    count(0)
+    expect(calls).toBe(1)
+    dispose()
+  })
+})